@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { GrammarCorrection } from '../types';
+import { alignAnswer, SENTENCE_FATE_LABELS, SentenceFate, DiffToken } from '../services/textDiff';
+import { GRAMMAR_ERROR_CATEGORIES } from '../services/grammar';
+
+interface AnswerDiffProps {
+  transcript: string;
+  modelAnswer: string;
+  corrections?: GrammarCorrection[];
+}
+
+const FATE_STYLES: Record<SentenceFate, string> = {
+  KEPT: 'bg-green-100 text-green-700',
+  REPHRASED: 'bg-blue-100 text-blue-700',
+  REPLACED: 'bg-red-100 text-red-600',
+  ADDED: 'bg-slate-200 text-slate-600'
+};
+
+const renderTokens = (tokens: DiffToken[], side: 'user' | 'model') => tokens
+  .filter(t => t.op === 'same' || (side === 'user' ? t.op === 'removed' : t.op === 'added'))
+  .map((t, i) => (
+    <span key={i} className={t.op === 'removed' ? 'text-red-500 line-through decoration-2' : t.op === 'added' ? 'text-green-700 bg-green-50 rounded px-0.5' : ''}>
+      {t.text}{' '}
+    </span>
+  ));
+
+const AnswerDiff: React.FC<AnswerDiffProps> = ({ transcript, modelAnswer, corrections = [] }) => {
+  const aligned = useMemo(() => alignAnswer(transcript, modelAnswer, corrections), [transcript, modelAnswer, corrections]);
+  const counts = aligned.reduce((acc, s) => ({ ...acc, [s.fate]: (acc[s.fate] || 0) + 1 }), {} as Partial<Record<SentenceFate, number>>);
+
+  return (
+    <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm lg:p-7 print:border-slate-300 print:p-4">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4 print:mb-2">
+        <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest print:text-[8px]">Answer Diff · 내 답변 → 모범답안</h4>
+        <div className="flex space-x-1">
+          {(Object.keys(SENTENCE_FATE_LABELS) as SentenceFate[]).filter(f => counts[f]).map(f => (
+            <span key={f} className={`text-[8px] font-black px-2 py-0.5 rounded-full ${FATE_STYLES[f]}`}>{SENTENCE_FATE_LABELS[f]} {counts[f]}</span>
+          ))}
+        </div>
+      </div>
+      <div className="space-y-3 print:space-y-2">
+        {aligned.map((s, i) => (
+          <div key={i} className="p-3 rounded-xl bg-slate-50 break-inside-avoid print:p-2">
+            <span className={`inline-block mb-2 text-[8px] font-black px-2 py-0.5 rounded-full ${FATE_STYLES[s.fate]}`}>{SENTENCE_FATE_LABELS[s.fate]}</span>
+            <div className="grid gap-2 lg:grid-cols-2 print:grid-cols-2">
+              <p className="text-xs font-medium leading-relaxed text-slate-600 print:text-[9px]">{s.user ? renderTokens(s.tokens, 'user') : <span className="text-slate-300">—</span>}</p>
+              <p className="text-xs font-bold leading-relaxed text-slate-800 print:text-[9px]">{s.model ? renderTokens(s.tokens, 'model') : <span className="text-slate-300">—</span>}</p>
+            </div>
+            {s.corrections.length > 0 && (
+              <div className="mt-2 pt-2 border-t border-slate-200 space-y-1">
+                {s.corrections.map((c, j) => (
+                  <p key={j} className="text-[11px] font-bold leading-relaxed print:text-[9px]">
+                    <span className="mr-1.5 text-[8px] font-black px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">{GRAMMAR_ERROR_CATEGORIES[c.category]}</span>
+                    <span className="text-red-500 line-through">{c.original}</span>
+                    <span className="text-slate-400"> → </span>
+                    <span className="text-green-700">{c.corrected}</span>
+                    {c.explanation && <span className="font-medium text-slate-500"> · {c.explanation}</span>}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AnswerDiff;
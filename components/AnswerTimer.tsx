@@ -0,0 +1,40 @@
+import React from 'react';
+import { formatClock, getAnswerTimingStatus, ANSWER_TIMING_LABELS } from '../services/answerTimer';
+
+interface AnswerTimerProps {
+  elapsedMs: number;
+  targetSec: number;
+  isPaused?: boolean;
+}
+
+const STATUS_STYLES = {
+  SHORT: { bar: 'bg-amber-400', text: 'text-amber-600' },
+  ON_TARGET: { bar: 'bg-green-500', text: 'text-green-600' },
+  OVERRUN: { bar: 'bg-red-500', text: 'text-red-600' }
+};
+
+const AnswerTimer: React.FC<AnswerTimerProps> = ({ elapsedMs, targetSec, isPaused }) => {
+  const targetMs = targetSec * 1000;
+  const remainingMs = targetMs - elapsedMs;
+  const status = getAnswerTimingStatus(elapsedMs / 1000, targetSec);
+  const style = STATUS_STYLES[status];
+
+  return (
+    <div className="w-full sm:max-w-sm hidden-print">
+      <div className="flex items-end justify-between mb-1.5">
+        <span className={`text-[10px] font-black uppercase tracking-widest ${isPaused ? 'text-slate-400' : style.text}`}>
+          {isPaused ? '일시정지' : ANSWER_TIMING_LABELS[status]}
+        </span>
+        <span className={`text-2xl font-black tabular-nums ${remainingMs < 0 ? 'text-red-600' : 'text-slate-800'}`}>
+          {remainingMs < 0 ? `+${formatClock(-remainingMs)}` : formatClock(remainingMs)}
+        </span>
+      </div>
+      <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden">
+        <div className={`h-full transition-all duration-500 ${style.bar}`} style={{ width: `${Math.min(100, (elapsedMs / targetMs) * 100)}%` }}></div>
+      </div>
+      <p className="mt-1 text-[9px] font-bold text-slate-400 text-right">답변 {formatClock(elapsedMs)} / 목표 {formatClock(targetMs)}</p>
+    </div>
+  );
+};
+
+export default AnswerTimer;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { formatClock } from '../services/answerTimer';
+import { PLAYBACK_RATES, estimateSentenceOffsets, findSentenceAt, normalizeLoop, LoopRange } from '../services/audioPlayer';
+
+interface AudioPlayerProps {
+  sourceKey: string;                 // 바뀌면 불러온 오디오를 버리고 다시 로드
+  load: () => Promise<Blob>;
+  sentences?: string[];              // 모범답안 문장 단위 이동
+  label?: string;
+  onBeforePlay?: () => void;
+}
+
+// 한 번에 하나의 플레이어만 재생
+const pauseHandlers = new Set<() => void>();
+
+export const pauseAllAudioPlayers = () => pauseHandlers.forEach(pause => pause());
+
+const AudioPlayer: React.FC<AudioPlayerProps> = ({ sourceKey, load, sentences, label, onBeforePlay }) => {
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [url, setUrl] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [duration, setDuration] = useState(0);
+  const [position, setPosition] = useState(0);
+  const [rate, setRate] = useState(1);
+  const [markA, setMarkA] = useState<number | null>(null);
+  const [loop, setLoop] = useState<LoopRange | null>(null);
+  const pendingPlayRef = useRef(false);
+  const loopRef = useRef<LoopRange | null>(null);
+  loopRef.current = loop;
+
+  const offsets = sentences && duration > 0 ? estimateSentenceOffsets(sentences, duration) : [];
+  const currentSentence = findSentenceAt(offsets, position);
+
+  useEffect(() => {
+    const pause = () => audioRef.current?.pause();
+    pauseHandlers.add(pause);
+    return () => { pauseHandlers.delete(pause); };
+  }, []);
+
+  useEffect(() => {
+    setUrl(null);
+    setDuration(0);
+    setPosition(0);
+    setMarkA(null);
+    setLoop(null);
+  }, [sourceKey]);
+
+  useEffect(() => () => { if (url) URL.revokeObjectURL(url); }, [url]);
+
+  // 재생 중 위치 갱신 + A-B 반복
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    const tick = () => {
+      const audio = audioRef.current;
+      if (audio) {
+        const range = loopRef.current;
+        if (range && audio.currentTime >= range.b) audio.currentTime = range.a;
+        setPosition(audio.currentTime);
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying]);
+
+  const startPlayback = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    onBeforePlay?.();
+    pauseAllAudioPlayers();
+    audio.playbackRate = rate;
+    audio.play().catch(e => console.error("Audio play fail", e));
+  };
+
+  const togglePlay = async () => {
+    if (isPlaying) { audioRef.current?.pause(); return; }
+    if (url) { startPlayback(); return; }
+    setIsLoading(true);
+    try {
+      const blob = await load();
+      pendingPlayRef.current = true;
+      setUrl(URL.createObjectURL(blob));
+    } catch (e) {
+      console.error("Audio load fail", e);
+      alert("오디오를 불러오지 못했습니다.");
+      setIsLoading(false);
+    }
+  };
+
+  const handleLoadedMetadata = () => {
+    const audio = audioRef.current!;
+    // MediaRecorder로 만든 webm은 끝까지 탐색해야 길이가 확정됨
+    if (!isFinite(audio.duration)) {
+      audio.currentTime = Number.MAX_SAFE_INTEGER;
+      return;
+    }
+    setDuration(audio.duration);
+    setIsLoading(false);
+    if (pendingPlayRef.current) {
+      pendingPlayRef.current = false;
+      startPlayback();
+    }
+  };
+
+  const handleDurationChange = () => {
+    const audio = audioRef.current!;
+    if (!isFinite(audio.duration) || duration > 0) return;
+    audio.currentTime = 0;
+    handleLoadedMetadata();
+  };
+
+  const seek = (timeSec: number) => {
+    const audio = audioRef.current;
+    if (!audio || !url) return;
+    audio.currentTime = Math.max(0, Math.min(timeSec, duration));
+    setPosition(audio.currentTime);
+  };
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    if (audioRef.current) audioRef.current.playbackRate = next;
+  };
+
+  const seekSentence = (idx: number) => {
+    seek(offsets[idx]);
+    if (!isPlaying) startPlayback();
+  };
+
+  const loopSentence = (idx: number) => {
+    const range = normalizeLoop(offsets[idx], offsets[idx + 1] ?? duration, duration);
+    setLoop(range);
+    setMarkA(null);
+    if (range) seekSentence(idx);
+  };
+
+  const handleABClick = () => {
+    if (loop) { setLoop(null); return; }
+    if (markA === null) { setMarkA(position); return; }
+    setLoop(normalizeLoop(markA, position, duration));
+    setMarkA(null);
+  };
+
+  const isReady = !!url && duration > 0;
+
+  return (
+    <div className="p-3 bg-slate-50 border border-slate-100 rounded-xl hidden-print">
+      <audio
+        ref={audioRef}
+        src={url || undefined}
+        preload="auto"
+        onLoadedMetadata={handleLoadedMetadata}
+        onDurationChange={handleDurationChange}
+        onPlay={() => setIsPlaying(true)}
+        onPause={() => setIsPlaying(false)}
+        onEnded={() => setIsPlaying(false)}
+      />
+      <div className="flex items-center gap-2">
+        <button onClick={togglePlay} disabled={isLoading} className="w-8 h-8 shrink-0 flex items-center justify-center rounded-full bg-blue-600 text-white shadow-sm hover:bg-blue-700 transition-all disabled:opacity-50">
+          {isLoading ? (
+            <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin"></div>
+          ) : isPlaying ? (
+            <svg className="w-3 h-3" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z"/></svg>
+          ) : (
+            <svg className="w-3 h-3 ml-0.5" fill="currentColor" viewBox="0 0 24 24"><path d="M7 4l13 8-13 8z"/></svg>
+          )}
+        </button>
+        {label && <span className="hidden sm:inline text-[9px] font-black text-slate-400 uppercase tracking-widest shrink-0">{label}</span>}
+        <span className="text-[9px] font-black text-slate-400 tabular-nums shrink-0">{formatClock(position * 1000)}</span>
+        <div className="relative flex-grow">
+          {loop && duration > 0 && (
+            <div className="absolute top-1/2 -translate-y-1/2 h-2 bg-amber-200 rounded pointer-events-none" style={{ left: `${(loop.a / duration) * 100}%`, width: `${((loop.b - loop.a) / duration) * 100}%` }}></div>
+          )}
+          <input
+            type="range"
+            min={0}
+            max={duration || 0}
+            step={0.1}
+            value={Math.min(position, duration || 0)}
+            onChange={(e) => seek(Number(e.target.value))}
+            disabled={!isReady}
+            className="relative w-full accent-blue-600"
+          />
+        </div>
+        <span className="text-[9px] font-black text-slate-400 tabular-nums shrink-0">{formatClock(duration * 1000)}</span>
+      </div>
+      <div className="flex flex-wrap items-center gap-1 mt-2">
+        {PLAYBACK_RATES.map(r => (
+          <button key={r} onClick={() => changeRate(r)} className={`px-2 py-0.5 rounded-full text-[8px] font-black border transition-all ${rate === r ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-400 border-slate-200 hover:border-slate-400'}`}>{r}x</button>
+        ))}
+        <button onClick={handleABClick} disabled={!isReady} className={`px-2 py-0.5 rounded-full text-[8px] font-black border transition-all disabled:opacity-40 ${loop ? 'bg-amber-500 text-white border-amber-500' : markA !== null ? 'bg-amber-100 text-amber-700 border-amber-300' : 'bg-white text-slate-400 border-slate-200 hover:border-slate-400'}`}>
+          {loop ? `A-B ${formatClock(loop.a * 1000)}~${formatClock(loop.b * 1000)} 해제` : markA !== null ? `A ${formatClock(markA * 1000)} → B 지정` : 'A-B 반복'}
+        </button>
+        {offsets.length > 1 && offsets.map((_, i) => (
+          <button
+            key={i}
+            onClick={() => seekSentence(i)}
+            onDoubleClick={() => loopSentence(i)}
+            title={`${sentences![i]}\n(더블클릭: 이 문장 반복)`}
+            className={`w-5 h-5 rounded text-[8px] font-black transition-all ${i === currentSentence && isReady ? 'bg-blue-600 text-white' : 'bg-white text-slate-400 border border-slate-200 hover:border-blue-300'}`}
+          >
+            {i + 1}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AudioPlayer;
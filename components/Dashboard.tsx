@@ -1,6 +1,6 @@
 
 import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
-import { FullUser, SurveyData, OPIcQuestion, UnitProgress, StudyLogEntry, VocabularyEntry } from '../types';
+import { FullUser, SurveyData, OPIcQuestion, UnitProgress, StudyLogEntry, VocabularyEntry, QuestionDbEntry, PracticeSetState, DifficultyAdjustment, ComboSetState, RolePlayType, RolePlayRubric, AnswerRubric, OpicGrade, GradeConsensus, FluencyMetrics, GrammarCorrection, PronunciationIssue, ShadowingProgress, TtsVoicePreference, TtsAccent, RecordingTake, AnalysisResult, AnalysisJob, AnalysisJobStep } from '../types';
 import { 
   fetchSurveyFromIndividualSheet, 
   fetchProgressFromIndividualSheet, 
@@ -18,52 +18,93 @@ import {
   fetchAllUsersProgress,
   saveVocabularyEntry,
   fetchVocabularyBank,
+  downloadDriveFile,
+  downloadDriveAudio,
+  listDriveFiles,
+  replaceDriveFileContent,
+  fetchUserSettings,
+  saveUserSettings,
   deleteVocabularyEntry
 } from '../services/api';
 import SheetProvisioning from './SheetProvisioning';
 import Survey from './Survey';
-import { GoogleGenAI, Modality } from "@google/genai";
+import MockExam from './MockExam';
+import AnswerTimer from './AnswerTimer';
+import RubricBreakdown from './RubricBreakdown';
+import FluencyPanel from './FluencyPanel';
+import FluencyTrends from './FluencyTrends';
+import RecurringMistakes from './RecurringMistakes';
+import PronunciationPanel from './PronunciationPanel';
+import PendingAnalyses from './PendingAnalyses';
+import ShadowingPractice from './ShadowingPractice';
+import AudioPlayer, { pauseAllAudioPlayers } from './AudioPlayer';
+import LevelMeter from './LevelMeter';
+import MicCalibration from './MicCalibration';
+import TakeReview, { MAX_RECORDING_TAKES } from './TakeReview';
+import AnswerDiff from './AnswerDiff';
+import { GoogleGenAI } from "@google/genai";
+import { decodeBase64, blobToBase64, decodeRawPcm, openGainRecorder, pcmToWav, wavToPcm } from '../services/audio';
+import { loadCalibratedGain, loadRecordingGain, saveRecordingGain, isNearSilentRecording, SILENT_RECORDING_MESSAGE } from '../services/inputLevel';
+import { MAX_STEP_ATTEMPTS, getNextAnalysisStep, isStaleJob, hasNewerPractice, findJobUnitIndex, retryWithBackoff, toErrorMessage, loadAnalysisJobs, loadAnalysisJob, saveAnalysisJob, deleteAnalysisJob } from '../services/analysisJobs';
+import { ttsStorageKey, getCachedAudio, putCachedAudio, getAudioCacheStats, clearAudioCache } from '../services/audioCache';
+import { cleanAiText, generateValidatedJson, acceptWithoutField, validateAiJsonArray, partsSchemaRule, AiSchema, QUESTION_SCHEMA } from '../services/ai';
+import { parseGrade, GRADE_PROMPT_LIST } from '../services/grade';
+import { CONSENSUS_SAMPLE_COUNT, GRADE_SAMPLE_SCHEMA, loadConsensusMode, saveConsensusMode, buildGradeSamplePrompt, aggregateGrades, getGradeSpread, isUnstableConsensus } from '../services/consensus';
+import { buildSelfAssessmentContext, getSelfAssessmentLevel } from '../services/selfAssessment';
+import { PRACTICE_SET_SIZE, RELEVEL_AFTER, DIFFICULTY_ADJUSTMENT_LABELS, buildAdjustmentContext, pickAdjustedQuestionRow } from '../services/practiceSet';
+import { ANSWER_TARGET_OPTIONS, AnswerClock, loadAnswerTargetSec, saveAnswerTargetSec, startAnswerClock, pauseAnswerClock, resumeAnswerClock, readAnswerClockMs, buildDurationContext, formatClock, getAnswerTimingStatus, ANSWER_TIMING_LABELS } from '../services/answerTimer';
+import { QUESTION_REPLAY_WINDOW_MS, QuestionListeningState, loadExamRealism, saveExamRealism, nextListeningPhaseOnEnd } from '../services/examRealism';
+import { RUBRIC_SCHEMA, RUBRIC_CRITERIA, RUBRIC_CRITERION_KEYS, buildRubricInstructions, parseRubric } from '../services/rubric';
+import { computeFluencyMetrics, FLUENCY_METRIC_KEYS, FLUENCY_METRIC_LABELS } from '../services/fluency';
+import { TTS_VOICES, TTS_ACCENTS, DEFAULT_TTS_VOICE, getVoiceKey, parseVoiceKey, isSameVoice, loadVoicePreference, voicePreferenceToSettings, buildTtsCacheKey, buildModelAudioFileName, buildTtsRequest, MODEL_AUDIO_FILE_PREFIX, isLegacyModelAudioFile, toWavFileName } from '../services/ttsVoice';
+import { buildShadowingSentences, countPassedSentences, estimateSentenceSegments, SentenceSegment } from '../services/shadowing';
+import { STUDY_PACK_PROMPT_GAP_SEC, STUDY_PACK_ITEM_GAP_SEC, STUDY_PACK_MAX_ITEMS, canAddToStudyPack, buildStudyPackPrompt, createSilence, concatPcm, buildStudyPackFileName } from '../services/studyPack';
+import { PRONUNCIATION_INSTRUCTIONS, PRONUNCIATION_SCHEMA, parsePronunciationIssues } from '../services/pronunciation';
+import { GRAMMAR_CORRECTIONS_INSTRUCTIONS, GRAMMAR_CORRECTIONS_SCHEMA, GRAMMAR_ERROR_CATEGORIES, GRAMMAR_ERROR_CATEGORY_KEYS, parseGrammarCorrections } from '../services/grammar';
+import { ROLE_PLAY_TYPES, ROLE_PLAY_RUBRIC_SCHEMA, buildRolePlayScenarioPrompt, buildRolePlayGradingInstructions, parseRolePlayRubric } from '../services/rolePlay';
 
 // 파트 구분을 위한 특수 문자열
 const PART_DELIMITER = " [PART] ";
 
 type AnswerDirection = 'EASY' | 'NATIVE' | 'STORYTELLER' | null;
-type GenerationMode = 'AI' | 'MANUAL';
-
-function decodeBase64(base64: string) {
-  const binaryString = atob(base64);
-  const len = binaryString.length;
-  const bytes = new Uint8Array(len);
-  for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
-  return bytes;
-}
-
-async function blobToBase64(blob: Blob): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
-    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
-    reader.onerror = reject;
-    reader.readAsDataURL(blob);
-  });
-}
-
-function cleanAiText(text: string): string {
-  return text ? text.replace(/[*_`#]/g, '').replace(/\[|\]/g, '').replace(/\s+/g, " ").trim() : "";
-}
+type GenerationMode = 'AI' | 'MANUAL' | 'COMBO' | 'ROLE_PLAY';
+
+const COMBO_SIZE = 3;
+
+const FEEDBACK_SCHEMA: AiSchema = {
+  transcript: { type: 'string' },
+  correctionParts: partsSchemaRule,
+  translationParts: partsSchemaRule,
+  feedback: { type: 'string' },
+  predictedLevel: { type: 'string', validate: (v) => !!parseGrade(v) },
+  rubric: { type: 'object', optional: true },
+  rolePlayRubric: { type: 'object', optional: true },
+  corrections: { type: 'array', optional: true },
+  pronunciation: { type: 'array', optional: true }
+};
 
-async function decodeRawPcm(data: Uint8Array, ctx: AudioContext): Promise<AudioBuffer> {
-  const dataInt16 = new Int16Array(data.buffer);
-  const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < dataInt16.length; i++) channelData[i] = dataInt16[i] / 32768.0;
-  return buffer;
-}
+const VOCAB_SCHEMA: AiSchema = {
+  expression: { type: 'string' },
+  meaning: { type: 'string' },
+  usageExample: { type: 'string' }
+};
 
 const extractFileId = (url: string) => {
   const match = url.match(/\/d\/([a-zA-Z0-9-_]+)/) || url.match(/id=([a-zA-Z0-9-_]+)/);
   return match ? match[1] : null;
 };
 
+// 같은 콤보 세트에 속한 연속 로그를 하나의 그룹으로 묶음 (그룹 내부는 출제 순서대로 정렬)
+const groupLogsByCombo = (logs: StudyLogEntry[]): StudyLogEntry[][] => {
+  const groups: StudyLogEntry[][] = [];
+  logs.forEach(log => {
+    const last = groups[groups.length - 1];
+    if (log.comboId && last && last[0].comboId === log.comboId) last.push(log);
+    else groups.push([log]);
+  });
+  return groups.map(g => g.length > 1 ? [...g].sort((a, b) => a.sessionId.localeCompare(b.sessionId)) : g);
+};
+
 const maskEmail = (email: string) => {
   const [user, domain] = email.split('@');
   if (user.length <= 2) return `${user}***@${domain}`;
@@ -74,12 +115,32 @@ interface DashboardProps { user: FullUser; onLogout: () => void; }
 
 const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) => {
   const [user, setUser] = useState<FullUser>(initialUser);
+  // 오래 걸리는 분석 작업이 갱신된 토큰을 쓰도록
+  const userRef = useRef(user);
+  userRef.current = user;
   const [units, setUnits] = useState<UnitProgress[]>([]);
-  const [masterQuestionDb, setMasterQuestionDb] = useState<any[]>([]); 
+  const [masterQuestionDb, setMasterQuestionDb] = useState<QuestionDbEntry[]>([]); 
   const [unitHistory, setUnitHistory] = useState<StudyLogEntry[]>([]);
+  // 백그라운드 단계(모범답안 음성 등)가 시트에 쓸 때 그 사이 저장된 쉐도잉 진도를 덮어쓰지 않도록 최신 기록을 참조
+  const unitHistoryRef = useRef(unitHistory);
+  unitHistoryRef.current = unitHistory;
+  // 학습 기록 저장 전에 끝낸 쉐도잉 진도는 저장 직후 반영
+  const pendingShadowingRef = useRef<Map<string, ShadowingProgress>>(new Map());
   const [selectedUnitIdx, setSelectedUnitIdx] = useState<number | null>(null);
   
   const [geminiApiKey, setGeminiApiKey] = useState<string | null>(null);
+  const [ttsVoice, setTtsVoice] = useState<TtsVoicePreference>(DEFAULT_TTS_VOICE);
+  // 설정(API 키, 목소리)을 불러오기 전에 보관된 분석 작업을 이어서 처리하지 않도록
+  const [isConfigLoaded, setIsConfigLoaded] = useState(false);
+  // 백그라운드 분석 작업이 나중에 불러온 API 키/목소리를 쓰도록
+  const geminiApiKeyRef = useRef(geminiApiKey);
+  geminiApiKeyRef.current = geminiApiKey;
+  const ttsVoiceRef = useRef(ttsVoice);
+  ttsVoiceRef.current = ttsVoice;
+  const [isRegeneratingAudio, setIsRegeneratingAudio] = useState(false);
+  const [audioCacheBytes, setAudioCacheBytes] = useState(0);
+  const [legacyModelAudioFiles, setLegacyModelAudioFiles] = useState<{ id: string, name: string }[]>([]);
+  const [audioMigration, setAudioMigration] = useState<{ done: number, total: number } | null>(null);
   const [expandedCategories, setExpandedCategories] = useState<Set<string>>(new Set());
   const [expandedTopics, setExpandedTopics] = useState<Set<string>>(new Set());
 
@@ -93,27 +154,51 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
   const [genMode, setGenMode] = useState<GenerationMode>('AI');
   const [aiGenKeyword, setAiGenKeyword] = useState("");
   const [manualQuestionText, setManualQuestionText] = useState("");
+  const [rolePlayType, setRolePlayType] = useState<RolePlayType>('ASK_QUESTIONS');
 
   const [selectedDirection, setSelectedDirection] = useState<AnswerDirection>(null);
+
+  // 연속 연습 세트 (7문항 이후 난이도 재조정)
+  const [practiceSet, setPracticeSet] = useState<PracticeSetState>({ levels: [], adjustment: null });
+  const needsRelevel = practiceSet.levels.length >= RELEVEL_AFTER && !practiceSet.adjustment;
+
+  const [comboSet, setComboSet] = useState<ComboSetState | null>(null);
+  const [restudyCombo, setRestudyCombo] = useState<StudyLogEntry[]>([]);
+  const [restudySessionId, setRestudySessionId] = useState<string | null>(null);
+  const hasNextComboQuestion = !!comboSet && comboSet.index + 1 < comboSet.questions.length;
+  // 롤플레이 상황은 Ava 음성(Gemini TTS)으로, 일반 질문은 브라우저 TTS로 재생
+  const questionAudioId = currentQuestion?.rolePlayType ? 'ava' : 'q';
+
+  const [isExamRealism, setIsExamRealism] = useState(loadExamRealism);
+  const [isConsensusMode, setIsConsensusMode] = useState(loadConsensusMode);
+  const [questionListening, setQuestionListening] = useState<QuestionListeningState>({ phase: 'LOCKED', replayed: false });
   
   const [isRecording, setIsRecording] = useState(false);
+  const [recordingAnalyser, setRecordingAnalyser] = useState<AnalyserNode | null>(null);
+  const [isCalibratingMic, setIsCalibratingMic] = useState(false);
+  const recordAfterCalibrationRef = useRef(false);
   const [isPaused, setIsPaused] = useState(false);
+  const [answerTargetSec, setAnswerTargetSec] = useState(loadAnswerTargetSec);
+  const [answerElapsedMs, setAnswerElapsedMs] = useState(0);
+  const answerClockRef = useRef<AnswerClock | null>(null);
   const [recordedBlob, setRecordedBlob] = useState<Blob | null>(null);
+  const [recordingTakes, setRecordingTakes] = useState<RecordingTake[]>([]);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   const [deletingId, setDeletingId] = useState<string | null>(null);
   const [analysisStep, setAnalysisStep] = useState("");
   const [showTranslation, setShowTranslation] = useState(false);
-  const [feedbackResult, setFeedbackResult] = useState<{ 
-    transcript: string, 
-    correction: string, 
-    correctionParts?: { intro: string, body: string, conclusion: string },
-    translationParts?: { intro: string, body: string, conclusion: string },
-    feedback: string, 
-    predictedLevel: string, 
-    rawAudioLink?: string,
-    audioLink?: string,
-    date?: string
-  } | null>(null);
+  const [feedbackResult, setFeedbackResult] = useState<AnalysisResult | null>(null);
+  const [analysisJobs, setAnalysisJobs] = useState<AnalysisJob[]>([]);
+  const runningJobIdsRef = useRef<Set<string>>(new Set());
+  // Study_Log 행이 녹음 순서대로 쌓이도록 모든 분석 작업은 하나의 대기열에서 차례로 처리
+  const analysisQueueRef = useRef<Promise<void>>(Promise.resolve());
+  const queuedJobIdsRef = useRef<Set<string>>(new Set());
+  // 연결이 끊겨 중단된 작업이 있으면 뒤의 작업이 먼저 저장되지 않도록 다음 복구 때까지 멈춤
+  const isQueueHaltedRef = useRef(false);
+  const foregroundJobIdRef = useRef<string | null>(null);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [showAnswerDiff, setShowAnswerDiff] = useState(false);
+  const [isShadowing, setIsShadowing] = useState(false);
   const [isRestudyMode, setIsRestudyMode] = useState(false);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isEditingSurvey, setIsEditingSurvey] = useState(false);
@@ -127,8 +212,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
   const [selectedLogIds, setSelectedLogIds] = useState<Set<string>>(new Set());
   const [isFetchingAllLogs, setIsFetchingAllLogs] = useState(false);
   const [isDownloading, setIsDownloading] = useState(false);
+  const [studyPackProgress, setStudyPackProgress] = useState<{ done: number, total: number } | null>(null);
 
   const [isVocabularyView, setIsVocabularyView] = useState(false);
+  const [isMockExamView, setIsMockExamView] = useState(false);
+  const [isFluencyView, setIsFluencyView] = useState(false);
+  const [isMistakeView, setIsMistakeView] = useState(false);
   const [savedVocabList, setSavedVocabList] = useState<VocabularyEntry[]>([]);
   const [isLoadingVocab, setIsLoadingVocab] = useState(false);
   const [extractedVocab, setExtractedVocab] = useState<any[]>([]);
@@ -144,6 +233,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
   const isCancellingRef = useRef(false);
   
   const syncingCorrectionSessionId = useRef<string | null>(null);
+  const correctionWaitTimerRef = useRef<number | null>(null);
+  // 쉐도잉 중 문장마다 모범답안 음성을 다시 디코딩하지 않도록 보관
+  const shadowingAudioRef = useRef<{ audioLink: string, buffer: AudioBuffer, segments: SentenceSegment[] } | null>(null);
 
   const structuredCurriculum = useMemo(() => {
     const categories: Record<string, { 
@@ -178,20 +270,24 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
   const loadAllData = useCallback(async (sheetId: string) => {
     setIsLoadingData(true);
     try {
-      const [survey, progress, questionDb, config] = await Promise.all([
+      const [survey, progress, questionDb, config, userSettings] = await Promise.all([
         fetchSurveyFromIndividualSheet(sheetId, user.accessToken),
         fetchProgressFromIndividualSheet(sheetId, user.accessToken),
         fetchQuestionDatabase(user.accessToken),
-        fetchConfigSettings(user.accessToken)
+        fetchConfigSettings(user.accessToken),
+        fetchUserSettings(sheetId, user.accessToken)
       ]);
       
       if (config['Gemini_API_Key']) setGeminiApiKey(config['Gemini_API_Key']);
+      setTtsVoice(loadVoicePreference(userSettings));
+      setIsConfigLoaded(true);
 
       setUser(prev => ({ 
         ...prev, 
         context: { 
           ...prev.context, 
           survey,
+          selfAssessment: survey?.selfAssessment,
           status: survey ? 'READY' : 'SURVEY_REQUIRED'
         } 
       })); 
@@ -226,7 +322,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     setIsFetchingAllLogs(true);
     try {
       const logs = await fetchStudyLogs(user.context.individualSheetId!, user.accessToken);
-      const sortedLogs = logs.reverse();
+      const sortedLogs = groupLogsByCombo(logs.reverse()).flat();
       setAllLogsForPrint(sortedLogs);
       setSelectedLogIds(new Set(sortedLogs.map(l => l.sessionId)));
     } catch (e) {
@@ -247,7 +343,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
       }
 
       // CSV 헤더 설정
-      const headers = ["ID", "날짜", "유닛", "유형", "질문", "키워드", "내 답변", "녹음링크", "성적", "AI 모범답안", "한글번역", "피드백", "모범답안 오디오"];
+      const headers = ["ID", "날짜", "유닛", "유형", "질문", "키워드", "내 답변", "녹음링크", "성적", "AI 모범답안", "한글번역", "피드백", "모범답안 오디오", "모의고사 ID", "답변 시간(초)", "질문 다시 듣기", "합의 채점 샘플", "합의 신뢰도(%)", ...RUBRIC_CRITERION_KEYS.map(key => RUBRIC_CRITERIA[key].label), ...FLUENCY_METRIC_KEYS.map(key => FLUENCY_METRIC_LABELS[key]), ...GRAMMAR_ERROR_CATEGORY_KEYS.map(key => `실수: ${GRAMMAR_ERROR_CATEGORIES[key]}`)];
       
       // 데이터 행 생성
       const csvRows = logs.map(log => [
@@ -263,7 +359,15 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
         (log.correction || "").replace(/"/g, '""'),
         (log.translatedAnswer || "").replace(/"/g, '""'),
         (log.feedback || "").replace(/"/g, '""'),
-        log.audioLink || ""
+        log.audioLink || "",
+        log.examId || "",
+        log.answerDurationSec ?? "",
+        log.questionReplayed === undefined ? "" : (log.questionReplayed ? "Y" : "N"),
+        (log.gradeSamples || []).join('/'),
+        log.gradeConfidence === undefined ? "" : Math.round(log.gradeConfidence * 100),
+        ...RUBRIC_CRITERION_KEYS.map(key => log.rubric?.[key]?.score ?? ""),
+        ...FLUENCY_METRIC_KEYS.map(key => log.fluency?.[key] ?? ""),
+        ...GRAMMAR_ERROR_CATEGORY_KEYS.map(key => log.grammarCorrections ? log.grammarCorrections.filter(c => c.category === key).length : "")
       ].map(val => `"${val}"`).join(","));
 
       // UTF-8 BOM 추가 (엑셀 한글 깨짐 방지)
@@ -298,6 +402,84 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     }
   }, [user.context.individualSheetId, units.length, loadAllData]);
 
+  // 새 질문이 출제되면 실전 모드/롤플레이는 질문을 음성으로 먼저 들려줌
+  useEffect(() => {
+    if (!currentQuestion || isRestudyMode) return;
+    setQuestionListening({ phase: 'PLAYING', replayed: false });
+    if (isExamRealism || currentQuestion.rolePlayType) playHighQualityAudio(currentQuestion.question, questionAudioId);
+  }, [currentQuestion]);
+
+  const prevTtsIdRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (prevTtsIdRef.current === questionAudioId && ttsState?.id !== questionAudioId) {
+      setQuestionListening(prev => ({ ...prev, phase: nextListeningPhaseOnEnd(prev.phase) }));
+    }
+    prevTtsIdRef.current = ttsState?.id || null;
+  }, [ttsState]);
+
+  useEffect(() => {
+    if (questionListening.phase !== 'REPLAY_WINDOW') return;
+    const timer = setTimeout(() => setQuestionListening(prev => prev.phase === 'REPLAY_WINDOW' ? { ...prev, phase: 'LOCKED' } : prev), QUESTION_REPLAY_WINDOW_MS);
+    return () => clearTimeout(timer);
+  }, [questionListening.phase]);
+
+  useEffect(() => { setIsShadowing(false); }, [feedbackResult?.sessionId]);
+
+  useEffect(() => {
+    const handleTokenRefreshed = (e: any) => {
+      const token = e.detail?.token;
+      if (token) setUser(prev => ({ ...prev, accessToken: token }));
+    };
+    window.addEventListener('TOKEN_REFRESHED_SUCCESS', handleTokenRefreshed);
+    return () => window.removeEventListener('TOKEN_REFRESHED_SUCCESS', handleTokenRefreshed);
+  }, []);
+
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, []);
+
+  // 새로고침, 토큰 갱신, 네트워크 복구 시 보관 중이거나 중단된 분석 작업을 녹음 순서대로 처리
+  // (실패한 작업은 반복 과금을 막기 위해 보관함의 '다시 시도'로만 재실행)
+  useEffect(() => {
+    if (!user.context.individualSheetId || !isConfigLoaded) return;
+    loadAnalysisJobs(user.email).then(loaded => {
+      // 이 세션에서 실행 중이 아닌 RUNNING 작업은 이전 세션에서 중단된 것
+      const jobs = loaded.map(j => j.status === 'RUNNING' && !runningJobIdsRef.current.has(j.id) ? { ...j, status: 'PENDING' as const } : j);
+      setAnalysisJobs(prev => [...prev.filter(j => runningJobIdsRef.current.has(j.id)), ...jobs.filter(j => !runningJobIdsRef.current.has(j.id))]);
+      if (!isOnline) return;
+      isQueueHaltedRef.current = false;
+      jobs.filter(j => j.status === 'PENDING').forEach(enqueueAnalysisJob);
+    });
+  }, [user.context.individualSheetId, user.accessToken, isOnline, isConfigLoaded]);
+
+  // 다른 질문으로 넘어가면 이전 질문의 녹음 테이크는 버림
+  useEffect(() => { setRecordingTakes([]); }, [currentQuestion]);
+
+  useEffect(() => { refreshAudioCacheStats(); }, [feedbackResult?.sessionId]);
+
+  useEffect(() => () => clearCorrectionWait(), []);
+
+  useEffect(() => {
+    const folderId = user.context.individualFolderId;
+    if (!folderId) return;
+    listDriveFiles(folderId, MODEL_AUDIO_FILE_PREFIX, user.accessToken)
+      .then(files => setLegacyModelAudioFiles(files.filter(f => isLegacyModelAudioFile(f.name))))
+      .catch(e => console.error("Legacy audio check fail", e));
+  }, [user.context.individualFolderId]);
+
+  useEffect(() => {
+    if (!isRecording) return;
+    const timer = setInterval(() => setAnswerElapsedMs(readAnswerClockMs(answerClockRef.current)), 500);
+    return () => clearInterval(timer);
+  }, [isRecording]);
+
   const toggleCategory = (cat: string) => {
     const next = new Set(expandedCategories);
     if (next.has(cat)) next.delete(cat); else next.add(cat);
@@ -313,6 +495,9 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
   const selectUnit = async (idx: number) => {
     stopAllAudio();
     setIsVocabularyView(false);
+    setIsMockExamView(false);
+    setIsFluencyView(false);
+    setIsMistakeView(false);
     const currentUnit = units[idx];
     const meta = masterQuestionDb.find(q => q.fullId === currentUnit.fullId);
     
@@ -330,6 +515,7 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     setSelectedUnitIdx(idx);
     setIsUnitPreview(true);
     setCurrentQuestion(null);
+    setComboSet(null);
     setExtractedVocab([]);
     setIsRestudyMode(false);
     setIsSidebarOpen(false);
@@ -358,21 +544,112 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     }
   };
 
+  const clearCorrectionWait = () => {
+    if (correctionWaitTimerRef.current !== null) clearInterval(correctionWaitTimerRef.current);
+    correctionWaitTimerRef.current = null;
+  };
+
   const stopAllAudio = () => {
+    clearCorrectionWait();
     if (activeAudioSource.current) { 
       try { activeAudioSource.current.stop(); } catch(e) {}
       activeAudioSource.current = null; 
     }
     window.speechSynthesis.cancel();
+    pauseAllAudioPlayers();
     setTtsState(null);
   };
 
   const getAiInstance = () => {
-    const key = (geminiApiKey && geminiApiKey.trim()) || process.env.API_KEY;
+    const key = (geminiApiKeyRef.current && geminiApiKeyRef.current.trim()) || process.env.API_KEY;
     return new GoogleGenAI({ apiKey: key });
   };
 
-  const playHighQualityAudio = async (text: string, id: string, driveUrl?: string) => {
+  // 메모리 캐시 → IndexedDB 순으로 조회 (새로고침 후에도 다시 받지 않도록)
+  const readTtsPcm = async (cacheKey: string): Promise<Uint8Array | null> => {
+    const inMemory = localTtsCache.current.get(cacheKey);
+    if (inMemory) return inMemory;
+    const stored = await getCachedAudio(await ttsStorageKey(cacheKey));
+    if (stored) localTtsCache.current.set(cacheKey, stored);
+    return stored;
+  };
+
+  const storeTtsPcm = (cacheKey: string, pcm: Uint8Array) => {
+    localTtsCache.current.set(cacheKey, pcm);
+    ttsStorageKey(cacheKey).then(key => putCachedAudio(key, pcm));
+  };
+
+  const refreshAudioCacheStats = () => getAudioCacheStats().then(stats => setAudioCacheBytes(stats.bytes));
+
+  const handleClearAudioCache = async () => {
+    if (!confirm("기기에 저장된 오디오 캐시를 모두 삭제할까요? 다음 재생 시 다시 다운로드합니다.")) return;
+    localTtsCache.current.clear();
+    if (!(await clearAudioCache())) alert("캐시 삭제 실패");
+    refreshAudioCacheStats();
+  };
+
+  // 예전 .pcm 모범답안 음성을 같은 파일 ID 그대로 WAV로 교체 (링크가 바뀌지 않아 시트 수정 불필요)
+  const migrateLegacyModelAudio = async () => {
+    if (audioMigration || !confirm(`예전 형식의 모범답안 음성 ${legacyModelAudioFiles.length}개를 WAV로 변환할까요?`)) return;
+    const failed: { id: string, name: string }[] = [];
+    setAudioMigration({ done: 0, total: legacyModelAudioFiles.length });
+    for (const [i, file] of legacyModelAudioFiles.entries()) {
+      try {
+        const blob = await downloadDriveFile(file.id, user.accessToken);
+        if (!blob) throw new Error("Drive download failed");
+        const wav = pcmToWav(wavToPcm(new Uint8Array(await blob.arrayBuffer())));
+        if (!(await replaceDriveFileContent(file.id, wav, toWavFileName(file.name), user.accessToken))) throw new Error("Drive update failed");
+      } catch (e) {
+        console.error("Model audio migration fail", file.name, e);
+        failed.push(file);
+      }
+      setAudioMigration({ done: i + 1, total: legacyModelAudioFiles.length });
+    }
+    setLegacyModelAudioFiles(failed);
+    setAudioMigration(null);
+    alert(failed.length ? `${failed.length}개 변환 실패. 잠시 후 다시 시도해주세요.` : "모든 모범답안 음성을 WAV로 변환했습니다.");
+  };
+
+  const getTtsPcm = async (cleanText: string, voice: TtsVoicePreference = ttsVoice): Promise<Uint8Array> => {
+    if (!cleanText) throw new Error("Text is empty");
+    const cacheKey = buildTtsCacheKey(cleanText, voice);
+    const cached = await readTtsPcm(cacheKey);
+    if (cached) return cached;
+    const res = await getAiInstance().models.generateContent(buildTtsRequest(cleanText, voice));
+    const audioData = decodeBase64(res.candidates![0].content.parts[0].inlineData!.data);
+    storeTtsPcm(cacheKey, audioData);
+    return audioData;
+  };
+
+  // 목소리 정보가 없는 예전 모범답안 음성은 기본 목소리로 생성된 것
+  const getModelVoice = (modelVoice?: string) => parseVoiceKey(modelVoice) || DEFAULT_TTS_VOICE;
+
+  // AudioPlayer용: Drive 파일(모범답안은 WAV, 예전 파일은 PCM) 또는 TTS를 재생 가능한 Blob으로
+  const loadAudioBlob = async (text: string, driveUrl?: string, isModelPcm: boolean = false, voice: TtsVoicePreference = ttsVoice): Promise<Blob> => {
+    const cleanText = (text || "").split(PART_DELIMITER).join(" ").trim();
+    if (!driveUrl) return pcmToWav(await getTtsPcm(cleanText, voice));
+    if (!isModelPcm) {
+      const recording = await downloadDriveAudio(driveUrl, user.accessToken);
+      if (!recording) throw new Error("Drive download failed");
+      return new Blob([recording], { type: 'audio/webm' });
+    }
+    return pcmToWav(await getModelAnswerPcm(cleanText, driveUrl, voice));
+  };
+
+  // Drive에 올라간 모범답안 음성을 PCM으로 (로컬 캐시 우선)
+  const getModelAnswerPcm = async (cleanText: string, driveUrl: string, voice: TtsVoicePreference): Promise<Uint8Array> => {
+    const cacheKey = buildTtsCacheKey(cleanText, voice);
+    const cached = cleanText ? await readTtsPcm(cacheKey) : null;
+    if (cached) return cached;
+    const blob = await downloadDriveFile(driveUrl, user.accessToken);
+    if (!blob) throw new Error("Drive download failed");
+    const bytes = wavToPcm(new Uint8Array(await blob.arrayBuffer()));
+    if (cleanText) storeTtsPcm(cacheKey, bytes);
+    return bytes;
+  };
+
+  // isModelAudio: driveUrl이 모범답안 음성(WAV/예전 PCM)이면 true, 사용자 녹음(webm)이면 false
+  const playHighQualityAudio = async (text: string, id: string, driveUrl?: string, voice: TtsVoicePreference = ttsVoice, isModelAudio: boolean = false) => {
     if (ttsState?.id === id) { stopAllAudio(); return; }
     stopAllAudio();
 
@@ -392,11 +669,12 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     if (!audioContextRef.current) audioContextRef.current = new AudioContext();
     if (audioContextRef.current.state === 'suspended') await audioContextRef.current.resume();
 
-    const cacheKey = cleanText;
-    if (cleanText && localTtsCache.current.has(cacheKey)) {
+    const cacheKey = buildTtsCacheKey(cleanText, voice);
+    const cachedPcm = cleanText ? await readTtsPcm(cacheKey) : null;
+    if (cachedPcm) {
       setTtsState({ id, status: 'playing' });
       const source = audioContextRef.current.createBufferSource();
-      source.buffer = await decodeRawPcm(localTtsCache.current.get(cacheKey)!, audioContextRef.current);
+      source.buffer = await decodeRawPcm(cachedPcm, audioContextRef.current);
       source.connect(audioContextRef.current.destination);
       source.onended = () => setTtsState(null);
       activeAudioSource.current = source;
@@ -404,12 +682,16 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
       return;
     }
 
-    if (id === 'correction' && syncingCorrectionSessionId.current && !driveUrl) {
+    // 화면의 답변이 백그라운드에서 모범답안 음성을 만드는 중이면 끝날 때까지 기다렸다가 재생
+    // (생성이 끝났는데 캐시에 없으면 실패한 것이므로 다시 호출해 TTS로 대체)
+    const syncingSessionId = feedbackResult?.sessionId;
+    if (id === 'correction' && !driveUrl && syncingSessionId && syncingCorrectionSessionId.current === syncingSessionId) {
+      clearCorrectionWait();
       setTtsState({ id, status: 'loading' });
-      const waitInterval = setInterval(() => {
-        if (localTtsCache.current.has(cacheKey)) {
-           clearInterval(waitInterval);
-           playHighQualityAudio(text, id, driveUrl);
+      correctionWaitTimerRef.current = window.setInterval(() => {
+        if (localTtsCache.current.has(cacheKey) || syncingCorrectionSessionId.current !== syncingSessionId) {
+          clearCorrectionWait();
+          playHighQualityAudio(text, id, driveUrl, voice, isModelAudio);
         }
       }, 1000);
       return;
@@ -420,31 +702,15 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
       let buffer: AudioBuffer;
       const fileId = driveUrl ? extractFileId(driveUrl) : null;
       if (fileId) {
-        const res = await fetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {
-          headers: { Authorization: `Bearer ${user.accessToken}` }
-        });
-        const arrayBuffer = await res.arrayBuffer();
-        if (id.includes('model') || id === 'correction' || (driveUrl && driveUrl.includes('AL_MODEL'))) {
-          const bytes = new Uint8Array(arrayBuffer);
-          if (cleanText) localTtsCache.current.set(cleanText, bytes);
-          buffer = await decodeRawPcm(bytes, audioContextRef.current);
+        if (isModelAudio) {
+          buffer = await decodeRawPcm(await getModelAnswerPcm(cleanText, driveUrl!, voice), audioContextRef.current);
         } else {
-          buffer = await audioContextRef.current.decodeAudioData(arrayBuffer);
+          const recording = await downloadDriveAudio(driveUrl!, user.accessToken);
+          if (!recording) throw new Error("Drive download failed");
+          buffer = await audioContextRef.current.decodeAudioData(recording.slice().buffer);
         }
       } else {
-        if (!cleanText) throw new Error("Text is empty");
-        const ai = getAiInstance();
-        const res = await ai.models.generateContent({
-          model: "gemini-2.5-flash-preview-tts",
-          contents: [{ parts: [{ text: cleanText }] }],
-          config: {
-            responseModalities: [Modality.AUDIO],
-            speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } }
-          }
-        });
-        const audioData = decodeBase64(res.candidates![0].content.parts[0].inlineData!.data);
-        if (cleanText) localTtsCache.current.set(cleanText, audioData);
-        buffer = await decodeRawPcm(audioData, audioContextRef.current);
+        buffer = await decodeRawPcm(await getTtsPcm(cleanText, voice), audioContextRef.current);
       }
       setTtsState({ id, status: 'playing' });
       const source = audioContextRef.current.createBufferSource();
@@ -459,6 +725,71 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     }
   };
 
+  // 쉐도잉: 저장된 모범답안 음성이 있으면 해당 문장 구간만 재생하고, 없으면 문장을 TTS로 재생
+  const playShadowingSentence = async (idx: number, id: string) => {
+    if (!feedbackResult) return;
+    const sentences = buildShadowingSentences(feedbackResult.correctionParts, feedbackResult.correction.split(PART_DELIMITER).join(" "));
+    const audioLink = feedbackResult.audioLink;
+    if (!audioLink) { playHighQualityAudio(sentences[idx].text, id); return; }
+    if (ttsState?.id === id) { stopAllAudio(); return; }
+    stopAllAudio();
+    setTtsState({ id, status: 'loading' });
+    try {
+      if (!audioContextRef.current) audioContextRef.current = new AudioContext();
+      if (audioContextRef.current.state === 'suspended') await audioContextRef.current.resume();
+      if (shadowingAudioRef.current?.audioLink !== audioLink) {
+        const cleanText = feedbackResult.correction.split(PART_DELIMITER).join(" ").trim();
+        const pcm = await getModelAnswerPcm(cleanText, audioLink, getModelVoice(feedbackResult.modelVoice));
+        shadowingAudioRef.current = {
+          audioLink,
+          buffer: await decodeRawPcm(pcm, audioContextRef.current),
+          segments: estimateSentenceSegments(pcm, sentences.map(s => s.text))
+        };
+      }
+      const { buffer, segments } = shadowingAudioRef.current;
+      const segment = segments[idx];
+      setTtsState({ id, status: 'playing' });
+      const source = audioContextRef.current.createBufferSource();
+      source.buffer = buffer;
+      source.connect(audioContextRef.current.destination);
+      source.onended = () => setTtsState(null);
+      activeAudioSource.current = source;
+      source.start(0, segment.startSec, segment.endSec - segment.startSec);
+    } catch (e) {
+      console.error("Shadowing audio fail", e);
+      setTtsState(null);
+    }
+  };
+
+  // 실전 모드에서는 질문 종료 후 5초 안에 한 번만 다시 들을 수 있음
+  const playQuestionAudio = () => {
+    if (!currentQuestion) return;
+    if (isExamRealism && !isRestudyMode && !feedbackResult) {
+      if (questionListening.phase !== 'REPLAY_WINDOW') return;
+      setQuestionListening({ phase: 'REPLAYING', replayed: true });
+    }
+    playHighQualityAudio(currentQuestion.question, questionAudioId);
+  };
+
+  const toggleConsensusMode = () => {
+    const enabled = !isConsensusMode;
+    setIsConsensusMode(enabled);
+    saveConsensusMode(enabled);
+  };
+
+  const isListeningOnly = isExamRealism && !isRestudyMode && !feedbackResult;
+
+  const toggleExamRealism = () => {
+    const enabled = !isExamRealism;
+    setIsExamRealism(enabled);
+    saveExamRealism(enabled);
+    // 답변 전인 질문에서 켜면 처음부터 듣기로 다시 시작
+    if (enabled && currentQuestion && !feedbackResult) {
+      setQuestionListening({ phase: 'PLAYING', replayed: false });
+      playHighQualityAudio(currentQuestion.question, questionAudioId);
+    }
+  };
+
   const playNativeTts = (text: string) => {
     window.speechSynthesis.cancel();
     const utterance = new SpeechSynthesisUtterance(text);
@@ -467,7 +798,22 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     window.speechSynthesis.speak(utterance);
   };
 
+  // 건너뛰거나 취소해도 다시 묻지 않도록 현재 배율을 저장
+  const finishMicCalibration = (gain?: number) => {
+    saveRecordingGain(gain ?? loadRecordingGain());
+    setIsCalibratingMic(false);
+    if (recordAfterCalibrationRef.current) {
+      recordAfterCalibrationRef.current = false;
+      startRecording();
+    }
+  };
+
   const startRecording = async () => {
+    if (loadCalibratedGain() === null) {
+      recordAfterCalibrationRef.current = true;
+      setIsCalibratingMic(true);
+      return;
+    }
     try {
       setRecordedBlob(null);
       setFeedbackResult(null);
@@ -475,50 +821,68 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
       setExtractedVocab([]);
       setIsPaused(false);
       isCancellingRef.current = false;
+      setQuestionListening(prev => prev.phase === 'REPLAY_WINDOW' ? { ...prev, phase: 'LOCKED' } : prev);
 
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const audioCtx = new AudioContext();
-      const source = audioCtx.createMediaStreamSource(stream);
-      const gainNode = audioCtx.createGain();
-      gainNode.gain.value = 2.5; 
-      const destination = audioCtx.createMediaStreamDestination();
-      source.connect(gainNode);
-      gainNode.connect(destination);
-      const recorder = new MediaRecorder(destination.stream);
+      const { recorder, analyser, release } = await openGainRecorder();
       const chunks: Blob[] = [];
       recorder.ondataavailable = (e) => chunks.push(e.data);
-      recorder.onstop = () => {
+      recorder.onstop = async () => {
+        release();
+        setRecordingAnalyser(null);
         if (isCancellingRef.current) {
           isCancellingRef.current = false;
-          stream.getTracks().forEach(t => t.stop());
-          audioCtx.close();
           return;
         }
         const finalBlob = new Blob(chunks, { type: 'audio/webm' });
-        setRecordedBlob(finalBlob);
-        stream.getTracks().forEach(t => t.stop());
-        audioCtx.close();
-        analyzeAudio(finalBlob);
+        // 무음 녹음은 업로드/채점하지 않음
+        if (await isNearSilentRecording(finalBlob)) {
+          alert(SILENT_RECORDING_MESSAGE);
+          return;
+        }
+        const take: RecordingTake = {
+          id: `TAKE_${Date.now()}`,
+          blob: finalBlob,
+          durationSec: Math.round(readAnswerClockMs(answerClockRef.current) / 1000),
+          recordedAt: new Date().toLocaleTimeString()
+        };
+        setRecordingTakes(prev => [...prev, take]);
       };
       recorder.start();
       mediaRecorderRef.current = recorder;
+      setRecordingAnalyser(analyser);
+      answerClockRef.current = startAnswerClock();
+      setAnswerElapsedMs(0);
       setIsRecording(true);
     } catch (e) { alert("마이크 권한 필요"); }
   };
 
   const stopRecording = () => {
+    if (answerClockRef.current) answerClockRef.current = pauseAnswerClock(answerClockRef.current);
     setIsRecording(false);
     setIsPaused(false);
     if (mediaRecorderRef.current) mediaRecorderRef.current.stop();
   };
 
+  // 고른 테이크만 업로드/채점 (분석에 실패하면 테이크가 남아 있어 다시 제출 가능)
+  const submitTake = (take: RecordingTake) => {
+    stopAllAudio();
+    setRecordedBlob(take.blob);
+    analyzeAudio(take.blob, take.durationSec);
+  };
+
+  const discardTake = (takeId: string) => {
+    setRecordingTakes(prev => prev.filter(t => t.id !== takeId));
+  };
+
   const togglePauseRecording = () => {
     if (!mediaRecorderRef.current) return;
     if (isPaused) {
       mediaRecorderRef.current.resume();
+      if (answerClockRef.current) answerClockRef.current = resumeAnswerClock(answerClockRef.current);
       setIsPaused(false);
     } else {
       mediaRecorderRef.current.pause();
+      if (answerClockRef.current) answerClockRef.current = pauseAnswerClock(answerClockRef.current);
       setIsPaused(true);
     }
   };
@@ -531,14 +895,24 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
     setIsPaused(false);
   };
 
-  const analyzeAudio = async (blob: Blob) => {
+  const changeAnswerTarget = (sec: number) => {
+    setAnswerTargetSec(sec);
+    saveAnswerTargetSec(sec);
+  };
+
+  const analyzeAudio = async (blob: Blob, answerDurationSec?: number) => {
     if (isAnalyzing) return; 
-    setIsAnalyzing(true);
     const dateObj = new Date();
     const timestamp = dateObj.getTime();
     const sessionId = `SESS_${timestamp}_${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
     const currentUnit = units[selectedUnitIdx!];
     const practiceTime = dateObj.toLocaleString();
+    const selfAssessment = getSelfAssessmentLevel(user.context.selfAssessment);
+    const targetLevelInstructions = selfAssessment
+      ? `The candidate chose self-assessment level ${selfAssessment.level}/6, aiming for ${selfAssessment.targetGrade}. In the feedback, explain concretely what separates this answer from ${selfAssessment.targetGrade}.`
+      : "";
+    const activeRolePlayType = currentQuestion!.rolePlayType;
+    const rolePlayInstructions = activeRolePlayType ? buildRolePlayGradingInstructions(activeRolePlayType) : "";
     
     let directionInstructions = "";
     if (selectedDirection === 'EASY') {
@@ -559,137 +933,412 @@ const Dashboard: React.FC<DashboardProps> = ({ user: initialUser, onLogout }) =>
       directionInstructions = "Focus on providing a high-quality, balanced OPIc AL level response with natural flow and clear structure.";
     }
 
-    try {
-      setAnalysisStep("사용자 녹음본을 전용 폴더에 업로드 중입니다...");
-      const rawDriveUrl = await uploadAudioToDrive(blob, `USER_RAW_${sessionId}.webm`, user.context.individualFolderId!, user.accessToken);
-
-      setAnalysisStep("Ava가 답변을 분석 중입니다...");
-      const ai = getAiInstance();
-      const res = await ai.models.generateContent({
-        model: "gemini-3-flash-preview",
-        contents: {
-          parts: [
-            { inlineData: { data: await blobToBase64(blob), mimeType: blob.type } },
-            { text: `You are a professional OPIc AL Grader. Perform the following two tasks strictly:
+    const job: AnalysisJob = {
+      id: sessionId,
+      userEmail: user.email,
+      createdAt: timestamp,
+      blob,
+      step: 'UPLOAD',
+      status: 'PENDING',
+      attempts: 0,
+      unitIdx: selectedUnitIdx!,
+      unitFullId: currentUnit.fullId,
+      unitGrade: currentUnit.grade || "-",
+      log: {
+        sessionId,
+        date: practiceTime,
+        unit: `[${currentUnit.fullId}] ${currentUnit.topic} - ${currentUnit.essence}`, 
+        type: comboSet
+          ? `Combo ${comboSet.index + 1}/${comboSet.questions.length} · ${currentQuestion!.type || "General"}`
+          : activeRolePlayType
+          ? `Role-play ${ROLE_PLAY_TYPES[activeRolePlayType].number} · ${ROLE_PLAY_TYPES[activeRolePlayType].label}`
+          : currentQuestion!.type || masterQuestionDb.find(q => q.fullId === currentUnit.fullId)?.strategy || "General",
+        question: currentQuestion!.question,
+        keywords: userKeywords,
+        rawAnswer: "",
+        rawAudioLink: "",
+        grade: "-",
+        correction: "",
+        translatedAnswer: "",
+        feedback: "",
+        audioLink: "",
+        comboId: comboSet?.comboId || "",
+        answerDurationSec,
+        questionReplayed: isExamRealism ? questionListening.replayed : undefined
+      },
+      gradingPrompt: `You are a professional OPIc AL Grader. Perform the following two tasks strictly:
 
 TASK 1: Objective Evaluation
 Analyze the user's audio based SOLELY on standard OPIc evaluation criteria. DO NOT let the selected style preference (${selectedDirection || 'none'}) affect the grading.
-1. transcript: Exact transcription of the user's speech.
-2. predictedLevel: Objective level (AL, IH, IH, IM3, IM2, IM1, NH) based on the audio performance.
-3. feedback: Constructive advice for the user in KOREAN based on standard criteria.
+1. transcript: Exact verbatim transcription of the user's speech. Keep filler words (uh, um, you know), repetitions and self-corrections exactly as spoken.
+2. predictedLevel: Objective level, exactly one of (${GRADE_PROMPT_LIST}), based on the audio performance.
+3. feedback: Constructive advice for the user in KOREAN based on standard criteria. ${targetLevelInstructions} ${buildDurationContext(answerDurationSec, answerTargetSec)}
+4. ${buildRubricInstructions()}
+5. ${GRAMMAR_CORRECTIONS_INSTRUCTIONS}
+6. ${PRONUNCIATION_INSTRUCTIONS}
+${rolePlayInstructions}
 
 TASK 2: Stylized Model Answer
 Generate a perfect OPIc AL level model answer incorporating the user's keywords: "${userKeywords}" based on the given question.
 Target Question: "${currentQuestion!.question}"
 
-4. correctionParts: A high-quality model answer in 3 parts (intro, body, conclusion). ONLY FOR THIS PART, strictly follow these style guidelines: ${directionInstructions}.
-5. translationParts: Korean translation of the model answer.
+7. correctionParts: A high-quality model answer in 3 parts (intro, body, conclusion). ONLY FOR THIS PART, strictly follow these style guidelines: ${directionInstructions}.
+8. translationParts: Korean translation of the model answer.
 
-Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":string,"conclusion":string},"translationParts":{"intro":string,"body":string,"conclusion":string},"feedback":string,"predictedLevel":string}` }
-          ]
-        },
-        config: { responseMimeType: "application/json" }
-      });
-      const data = JSON.parse(res.text!);
-      
-      const pIntro = cleanAiText(data.correctionParts.intro);
-      const pBody = cleanAiText(data.correctionParts.body);
-      const pConclusion = cleanAiText(data.correctionParts.conclusion);
-
-      const tIntro = cleanAiText(data.translationParts.intro);
-      const tBody = cleanAiText(data.translationParts.body);
-      const tConclusion = cleanAiText(data.translationParts.conclusion);
-
-      const result = {
-        transcript: cleanAiText(data.transcript),
-        correction: `${pIntro}${PART_DELIMITER}${pBody}${PART_DELIMITER}${pConclusion}`,
-        translatedAnswer: `${tIntro}${PART_DELIMITER}${tBody}${PART_DELIMITER}${tConclusion}`,
-        correctionParts: { intro: pIntro, body: pBody, conclusion: pConclusion },
-        translationParts: { intro: tIntro, body: tBody, conclusion: tConclusion },
-        feedback: cleanAiText(data.feedback),
-        predictedLevel: data.predictedLevel || "IM",
-        rawAudioLink: rawDriveUrl || "",
-        audioLink: "",
-        date: practiceTime
-      };
-      
-      setFeedbackResult(result);
-      
-      const initialLog: StudyLogEntry = {
-        sessionId,
-        date: practiceTime,
-        unit: `[${currentUnit.fullId}] ${currentUnit.topic} - ${currentUnit.essence}`, 
-        type: currentQuestion!.type || masterQuestionDb.find(q => q.fullId === currentUnit.fullId)?.strategy || "General",
-        question: currentQuestion!.question,
-        keywords: userKeywords,
-        rawAnswer: result.transcript,
-        rawAudioLink: result.rawAudioLink, 
-        grade: result.predictedLevel,
-        correction: result.correction, 
-        translatedAnswer: result.translatedAnswer,
-        feedback: result.feedback,
-        audioLink: "" 
-      };
-      
-      await saveStudyLog(user.context.individualSheetId!, initialLog, user.accessToken);
-      setUnitHistory(prev => [initialLog, ...prev]);
+Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":string,"conclusion":string},"translationParts":{"intro":string,"body":string,"conclusion":string},"feedback":string,"predictedLevel":string,${RUBRIC_SCHEMA},${GRAMMAR_CORRECTIONS_SCHEMA},${PRONUNCIATION_SCHEMA}${activeRolePlayType ? `,${ROLE_PLAY_RUBRIC_SCHEMA}` : ""}}`,
+      rolePlayType: activeRolePlayType,
+      isConsensus: isConsensusMode
+    };
+
+    // 오프라인이면 보관함에 저장해 두고 연결되면 자동으로 분석
+    if (!navigator.onLine) {
+      await persistAnalysisJob(job);
+      setRecordingTakes([]);
+      alert("오프라인 상태입니다. 녹음을 보관함에 저장했고, 인터넷에 연결되면 자동으로 분석합니다.");
+      return;
+    }
+    foregroundJobIdRef.current = sessionId;
+    setIsAnalyzing(true);
+    if (queuedJobIdsRef.current.size > 0) setAnalysisStep("먼저 녹음한 답변의 분석을 마친 뒤 시작합니다...");
+    await persistAnalysisJob(job);
+    enqueueAnalysisJob(job);
+  };
+
+  const gradeAnalysisJob = async (job: AnalysisJob): Promise<AnalysisResult> => {
+    const ai = getAiInstance();
+    const audioPart = { inlineData: { data: await blobToBase64(job.blob), mimeType: job.blob.type } };
+    // 합의 채점: 본 채점과 병렬로 등급만 추가 판정 (실패한 샘플은 제외)
+    const extraSamples = job.isConsensus
+      ? Array.from({ length: CONSENSUS_SAMPLE_COUNT - 1 }, (_, i) =>
+          generateValidatedJson<{ predictedLevel: string }>(ai, {
+            model: "gemini-3-flash-preview",
+            contents: { parts: [audioPart, { text: buildGradeSamplePrompt(job.log.question, i + 2) }] }
+          }, GRADE_SAMPLE_SCHEMA).then(r => parseGrade(r.predictedLevel)).catch(() => null))
+      : [];
+    const mainRequest = generateValidatedJson<any>(ai, {
+      model: "gemini-3-flash-preview",
+      contents: { parts: [audioPart, { text: job.gradingPrompt }] }
+    }, FEEDBACK_SCHEMA, {
+      // 등급만 인식 불가한 경우 나머지 분석 결과는 살리고 등급은 미판정(-)으로 처리
+      fallback: acceptWithoutField(FEEDBACK_SCHEMA, 'predictedLevel')
+    });
+    const [data, extraGrades] = await Promise.all([mainRequest, Promise.all(extraSamples)]);
+    const mainGrade = parseGrade(data.predictedLevel);
+    const transcript = cleanAiText(data.transcript);
+    const fluency = await computeFluencyMetrics(job.blob, transcript, job.log.answerDurationSec);
+    const gradeConsensus = job.isConsensus
+      ? aggregateGrades([mainGrade, ...extraGrades].filter((g): g is OpicGrade => !!g))
+      : null;
+    
+    const pIntro = cleanAiText(data.correctionParts.intro);
+    const pBody = cleanAiText(data.correctionParts.body);
+    const pConclusion = cleanAiText(data.correctionParts.conclusion);
+
+    const tIntro = cleanAiText(data.translationParts.intro);
+    const tBody = cleanAiText(data.translationParts.body);
+    const tConclusion = cleanAiText(data.translationParts.conclusion);
+
+    return {
+      sessionId: job.id,
+      transcript,
+      correction: `${pIntro}${PART_DELIMITER}${pBody}${PART_DELIMITER}${pConclusion}`,
+      translatedAnswer: `${tIntro}${PART_DELIMITER}${tBody}${PART_DELIMITER}${tConclusion}`,
+      correctionParts: { intro: pIntro, body: pBody, conclusion: pConclusion },
+      translationParts: { intro: tIntro, body: tBody, conclusion: tConclusion },
+      feedback: cleanAiText(data.feedback),
+      predictedLevel: gradeConsensus?.level || mainGrade || "-",
+      rawAudioLink: job.log.rawAudioLink,
+      audioLink: "",
+      date: job.log.date,
+      rolePlayRubric: job.rolePlayType && Array.isArray(data.rolePlayRubric?.criteria) ? data.rolePlayRubric as RolePlayRubric : undefined,
+      answerDurationSec: job.log.answerDurationSec,
+      rubric: parseRubric(data.rubric),
+      gradeConsensus: gradeConsensus || undefined,
+      fluency,
+      grammarCorrections: parseGrammarCorrections(data.corrections),
+      pronunciationIssues: parsePronunciationIssues(data.pronunciation)
+    };
+  };
+
+  // 단계 하나를 실행하고 작업에 반영할 변경분을 반환 (실패 시 throw → 재시도)
+  const runAnalysisStep = async (job: AnalysisJob): Promise<Partial<AnalysisJob>> => {
+    const { accessToken, context } = userRef.current;
+    switch (job.step) {
+      case 'UPLOAD': {
+        const rawDriveUrl = await uploadAudioToDrive(job.blob, `USER_RAW_${job.id}.webm`, context.individualFolderId!, accessToken);
+        if (!rawDriveUrl) throw new Error("Drive upload failed");
+        return { log: { ...job.log, rawAudioLink: rawDriveUrl } };
+      }
+      case 'GRADE': {
+        const result = await gradeAnalysisJob(job);
+        return {
+          result,
+          log: {
+            ...job.log,
+            rawAnswer: result.transcript,
+            grade: result.predictedLevel,
+            correction: result.correction, 
+            translatedAnswer: result.translatedAnswer || "",
+            feedback: result.feedback,
+            rolePlayRubric: result.rolePlayRubric ? JSON.stringify(result.rolePlayRubric) : "",
+            rubric: result.rubric,
+            gradeSamples: result.gradeConsensus?.samples,
+            gradeConfidence: result.gradeConsensus?.confidence,
+            fluency: result.fluency,
+            grammarCorrections: result.grammarCorrections,
+            pronunciationIssues: result.pronunciationIssues
+          }
+        };
+      }
+      case 'SAVE_LOG':
+        // 저장 직후 중단된 경우 같은 행이 두 번 추가되지 않도록 기존 행부터 갱신 시도
+        if (!(await updateStudyLog(context.individualSheetId!, job.log, accessToken)) && !(await saveStudyLog(context.individualSheetId!, job.log, accessToken))) {
+          throw new Error("Study_Log save failed");
+        }
+        return {};
+      case 'UPDATE_UNIT': {
+        if (!isStaleJob(job)) {
+          if (!(await updateUnitStatus(context.individualSheetId!, job.unitIdx, accessToken, "완료", getJobUnitGrade(job), job.log.date))) throw new Error("Progress update failed");
+          return {};
+        }
+        // 늦게 처리되는 작업: 그 사이 행 순서가 바뀌었거나 더 최근 연습이 있으면 진도를 덮어쓰지 않음
+        const [progress, logs] = await Promise.all([
+          fetchProgressFromIndividualSheet(context.individualSheetId!, accessToken),
+          fetchStudyLogs(context.individualSheetId!, accessToken, true)
+        ]);
+        const unitIdx = findJobUnitIndex(progress, job);
+        if (unitIdx === -1 || hasNewerPractice(logs, job)) return { unitConflict: true };
+        if (!(await updateUnitStatus(context.individualSheetId!, unitIdx, accessToken, "완료", getJobUnitGrade(job), job.log.date))) throw new Error("Progress update failed");
+        return { unitIdx };
+      }
+      case 'UPDATE_MASTER':
+        if (!(await updateMasterProgress(userRef.current.email, context.individualSheetId!, accessToken))) throw new Error("Master progress update failed");
+        return {};
+      case 'MODEL_AUDIO':
+        if (job.log.correction && !(await processOnlyModelMedia(job.log))) throw new Error("Model audio sync failed");
+        return {};
+      default:
+        return {};
+    }
+  };
+
+  // 미판정 답변은 기존 유닛 등급을 유지
+  const getJobUnitGrade = (job: AnalysisJob) => job.log.grade !== "-" ? job.log.grade : job.unitGrade;
+
+  // 화면에 보이는 답변(방금 녹음한 답변)일 때만 피드백 화면/히스토리에 바로 반영
+  const applyAnalysisStepResult = (finishedStep: AnalysisJobStep, job: AnalysisJob) => {
+    const isForeground = foregroundJobIdRef.current === job.id;
+    if (finishedStep === 'GRADE' && isForeground && job.result) {
+      setFeedbackResult(job.result);
+      // 원문 보존(EASY) 방향은 무엇이 바뀌었는지가 핵심이므로 비교 화면을 바로 펼침
+      if (selectedDirection === 'EASY') setShowAnswerDiff(true);
+      setIsAnalyzing(false);
+    }
+    if (finishedStep === 'SAVE_LOG' && isForeground) {
+      setUnitHistory(prev => [job.log, ...prev.filter(h => h.sessionId !== job.id)]);
+      if (job.log.grade !== "-") setPracticeSet(prev => ({ ...prev, levels: [...prev.levels, job.log.grade] }));
+    }
+    const pendingShadowing = finishedStep === 'SAVE_LOG' ? pendingShadowingRef.current.get(job.id) : undefined;
+    if (pendingShadowing) {
+      pendingShadowingRef.current.delete(job.id);
+      writeShadowingProgress(job.log, pendingShadowing);
+    }
+    if (finishedStep === 'UPDATE_UNIT' && !job.unitConflict) {
+      setUnits(prev => prev.map((u, i) => i === job.unitIdx ? { ...u, status: "완료", grade: getJobUnitGrade(job), lastPractice: job.log.date } : u));
+    }
+  };
 
-      await updateUnitStatus(user.context.individualSheetId!, selectedUnitIdx!, user.accessToken, "완료", result.predictedLevel, practiceTime);
-      updateMasterProgress(user.email, user.context.individualSheetId!, user.accessToken);
-      setUnits(prev => prev.map((u, i) => i === selectedUnitIdx ? { ...u, status: "완료", grade: result.predictedLevel, lastPractice: practiceTime } : u));
+  const persistAnalysisJob = async (job: AnalysisJob) => {
+    setAnalysisJobs(prev => prev.some(j => j.id === job.id) ? prev.map(j => j.id === job.id ? job : j) : [...prev, job]);
+    await saveAnalysisJob(job);
+  };
+
+  // 대기열 순서가 되면 저장된 최신 상태로 실행 (그 사이 삭제/실패한 작업은 건너뜀)
+  const enqueueAnalysisJob = (job: AnalysisJob) => {
+    if (queuedJobIdsRef.current.has(job.id)) return;
+    queuedJobIdsRef.current.add(job.id);
+    analysisQueueRef.current = analysisQueueRef.current.then(async () => {
+      try {
+        const stored = await loadAnalysisJob(job.id);
+        if (!stored || stored.status === 'FAILED') return;
+        if (isQueueHaltedRef.current || !navigator.onLine) {
+          if (foregroundJobIdRef.current === job.id) {
+            setIsAnalyzing(false);
+            alert("연결이 끊겨 녹음을 보관함에 저장했습니다. 인터넷에 연결되면 자동으로 분석합니다.");
+          }
+          return;
+        }
+        if (!(await runAnalysisJob(stored))) isQueueHaltedRef.current = true;
+      } catch (e) {
+        console.error("Analysis queue fail", e);
+      } finally { queuedJobIdsRef.current.delete(job.id); }
+    });
+  };
 
-      processOnlyModelMedia(initialLog);
-    } catch (e) { console.error(e); alert("분석 실패"); } finally { setIsAnalyzing(false); }
+  // 보관함의 '다시 시도': 실패 상태를 풀고 대기열 끝에 추가
+  const retryAnalysisJob = async (job: AnalysisJob) => {
+    await persistAnalysisJob({ ...job, status: 'PENDING', attempts: 0, lastError: undefined });
+    enqueueAnalysisJob(job);
   };
 
-  const processOnlyModelMedia = async (log: StudyLogEntry) => {
+  // 연결이 끊겨 보관 상태로 돌아간 경우에만 false
+  const runAnalysisJob = async (initialJob: AnalysisJob): Promise<boolean> => {
+    if (runningJobIdsRef.current.has(initialJob.id)) return true;
+    if (!navigator.onLine) return false;
+    runningJobIdsRef.current.add(initialJob.id);
+    const isForeground = () => foregroundJobIdRef.current === initialJob.id;
+    let job: AnalysisJob = { ...initialJob, status: 'RUNNING', attempts: 0, lastError: undefined };
+    try {
+      while (job.step !== 'DONE') {
+        await persistAnalysisJob(job);
+        if (isForeground() && job.step === 'UPLOAD') setAnalysisStep("사용자 녹음본을 전용 폴더에 업로드 중입니다...");
+        if (isForeground() && job.step === 'GRADE') setAnalysisStep(job.isConsensus ? `Ava가 답변을 ${CONSENSUS_SAMPLE_COUNT}회 독립 채점 중입니다...` : "Ava가 답변을 분석 중입니다...");
+        const current = job;
+        const updates = await retryWithBackoff(() => runAnalysisStep(current), (failedAttempts, e) => {
+          console.error(`Analysis step ${current.step} fail (${failedAttempts}/${MAX_STEP_ATTEMPTS})`, e);
+          persistAnalysisJob({ ...current, attempts: failedAttempts, lastError: toErrorMessage(e) });
+        }).catch(e => {
+          // 기록과 진도는 이미 저장됨: 모범답안 음성이 없으면 재생 시 TTS로 대신하므로 실패해도 완료 처리
+          if (current.step !== 'MODEL_AUDIO') throw e;
+          console.error("Model audio skipped", current.id, e);
+          return {};
+        });
+        job = { ...job, ...updates, step: getNextAnalysisStep(job.step), attempts: 0, lastError: undefined };
+        applyAnalysisStepResult(current.step, job);
+      }
+      setAnalysisJobs(prev => prev.filter(j => j.id !== job.id));
+      await deleteAnalysisJob(job.id);
+      if (job.unitConflict) {
+        alert(`"${job.log.question}" 답변은 학습 기록에 저장했지만, 그 사이 다른 곳에서 더 최근에 연습했거나 유닛 구성이 바뀌어 유닛 진도는 갱신하지 않았습니다.`);
+      }
+      return true;
+    } catch (e) {
+      console.error(e);
+      // 도중에 연결이 끊긴 경우는 실패가 아니라 보관 상태로 두고 복구 시 이어서 진행
+      await persistAnalysisJob(navigator.onLine
+        ? { ...job, status: 'FAILED', attempts: MAX_STEP_ATTEMPTS, lastError: toErrorMessage(e) }
+        : { ...job, status: 'PENDING', attempts: 0, lastError: undefined });
+      if (isForeground() && !job.result) {
+        alert(navigator.onLine ? "분석 실패. 화면 아래 '대기 중인 분석'에서 다시 시도할 수 있습니다." : "연결이 끊겨 녹음을 보관함에 저장했습니다. 인터넷에 연결되면 자동으로 분석합니다.");
+      }
+      return navigator.onLine;
+    } finally {
+      runningJobIdsRef.current.delete(initialJob.id);
+      if (isForeground()) setIsAnalyzing(false);
+    }
+  };
+
+  const discardAnalysisJob = async (job: AnalysisJob) => {
+    if (!confirm("이 녹음의 분석을 취소할까요? 저장되지 않은 녹음과 분석 결과는 사라집니다.")) return;
+    setAnalysisJobs(prev => prev.filter(j => j.id !== job.id));
+    await deleteAnalysisJob(job.id);
+  };
+
+  const processOnlyModelMedia = async (log: StudyLogEntry, voice: TtsVoicePreference = ttsVoiceRef.current): Promise<boolean> => {
+    const { accessToken, context } = userRef.current;
     try {
       syncingCorrectionSessionId.current = log.sessionId; 
       const plainCorrection = (log.correction || "").split(PART_DELIMITER).join(" ").trim();
-      if (!plainCorrection) return;
+      if (!plainCorrection) return false;
 
       const ai = getAiInstance();
-      const ttsRes = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: plainCorrection }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Puck' } } }
-        }
-      });
+      const ttsRes = await ai.models.generateContent(buildTtsRequest(plainCorrection, voice));
       const ttsData = decodeBase64(ttsRes.candidates![0].content.parts[0].inlineData!.data);
       
-      localTtsCache.current.set(plainCorrection, ttsData); 
+      storeTtsPcm(buildTtsCacheKey(plainCorrection, voice), ttsData); 
       
-      const modelDriveUrl = await uploadAudioToDrive(new Blob([ttsData], { type: 'audio/pcm' }), `AL_MODEL_${log.sessionId}.pcm`, user.context.individualFolderId!, user.accessToken);
+      const modelDriveUrl = await uploadAudioToDrive(pcmToWav(ttsData), buildModelAudioFileName(log.sessionId, voice), context.individualFolderId!, accessToken);
+      if (!modelDriveUrl) return false;
       
-      const updatedLog = { ...log, audioLink: modelDriveUrl || "" };
-      await updateStudyLog(user.context.individualSheetId!, updatedLog, user.accessToken);
+      // 음성 생성 중 바뀐 필드(쉐도잉 진도 등)를 잃지 않도록 최신 기록에 음성 정보만 반영
+      const modelAudio = { audioLink: modelDriveUrl, modelVoice: getVoiceKey(voice) };
+      const latestLog = unitHistoryRef.current.find(h => h.sessionId === log.sessionId) || log;
+      await updateStudyLog(context.individualSheetId!, { ...latestLog, ...modelAudio }, accessToken);
       
-      setFeedbackResult(prev => prev ? { ...prev, audioLink: modelDriveUrl || "" } : null);
-      setUnitHistory(prev => prev.map(h => h.sessionId === log.sessionId ? updatedLog : h));
+      setFeedbackResult(prev => prev && prev.sessionId === log.sessionId ? { ...prev, ...modelAudio } : prev);
+      setUnitHistory(prev => prev.map(h => h.sessionId === log.sessionId ? { ...h, ...modelAudio } : h));
+      return true;
     } catch (e) { 
       console.error("Model media sync fail", e); 
+      return false;
     } finally {
       syncingCorrectionSessionId.current = null; 
     }
   };
 
+  const changeTtsVoice = (voice: TtsVoicePreference) => {
+    setTtsVoice(voice);
+    saveUserSettings(user.context.individualSheetId!, voicePreferenceToSettings(voice), user.accessToken)
+      .then(ok => { if (!ok) console.error("Voice setting save fail"); });
+  };
+
+  // 선택한 목소리로 모범답안 음성을 다시 만들고 이전 파일은 삭제
+  const regenerateModelAudio = async () => {
+    const log = unitHistory.find(h => h.sessionId === feedbackResult?.sessionId);
+    if (!log) return;
+    stopAllAudio();
+    setIsRegeneratingAudio(true);
+    try {
+      const previousLink = log.audioLink;
+      const success = await processOnlyModelMedia(log, ttsVoice);
+      if (!success) { alert("음성 재생성 실패"); return; }
+      if (previousLink) await deleteFileFromDrive(previousLink, user.accessToken);
+    } finally { setIsRegeneratingAudio(false); }
+  };
+
+  // 쉐도잉 점수는 해당 답변의 Study_Log 행에 누적 저장
+  const saveShadowingProgress = (shadowing: ShadowingProgress) => {
+    const sessionId = feedbackResult?.sessionId;
+    setFeedbackResult(prev => prev ? { ...prev, shadowing } : null);
+    if (!sessionId) return;
+    const log = unitHistoryRef.current.find(h => h.sessionId === sessionId);
+    if (!log) {
+      pendingShadowingRef.current.set(sessionId, shadowing);
+      return;
+    }
+    writeShadowingProgress(log, shadowing);
+  };
+
+  const writeShadowingProgress = (log: StudyLogEntry, shadowing: ShadowingProgress) => {
+    const { accessToken, context } = userRef.current;
+    setUnitHistory(prev => prev.map(h => h.sessionId === log.sessionId ? { ...h, shadowing } : h));
+    updateStudyLog(context.individualSheetId!, { ...log, shadowing }, accessToken)
+      .then(ok => { if (!ok) console.error("Shadowing progress save fail"); });
+  };
+
+  // 모든 출제 방식의 등급이 세트에 쌓이므로, 전반부 후 난이도를 고르기 전에는 새 질문을 시작하지 않음
+  // 세트를 모두 마쳤다면 새 세트로 시작
+  const resolvePracticeSet = (): PracticeSetState | null => {
+    if (needsRelevel) {
+      alert("남은 질문의 난이도를 먼저 선택해주세요.");
+      return null;
+    }
+    const activeSet = practiceSet.levels.length >= PRACTICE_SET_SIZE ? { levels: [], adjustment: null } : practiceSet;
+    if (activeSet !== practiceSet) setPracticeSet(activeSet);
+    return activeSet;
+  };
+
   const startNewSession = async () => {
+    const activeSet = resolvePracticeSet();
+    if (!activeSet) return;
     setIsGenerating(true);
     stopAllAudio();
+    setComboSet(null);
     setIsRestudyMode(false);
     setShowTranslation(false);
     setExtractedVocab([]);
     const meta = masterQuestionDb.find(q => q.fullId === units[selectedUnitIdx!].fullId);
+    const typeSource = pickAdjustedQuestionRow(masterQuestionDb, meta, activeSet.adjustment);
+
     try {
       const ai = getAiInstance();
       const keywordContext = aiGenKeyword ? `Reflect this specific context or keyword in the question generation: "${aiGenKeyword}". ` : "";
+      const difficultyContext = `${buildSelfAssessmentContext(user.context.selfAssessment)} ${buildAdjustmentContext(activeSet.adjustment)}`.trim();
+      const typeContext = typeSource && typeSource !== meta ? `Use the question type "${typeSource.strategy || typeSource.category}" (e.g. ${typeSource.essence}) applied to this topic. ` : "";
       const prompt = meta 
-        ? `As an OPIc expert, generate a realistic exam question based on these: Topic: ${meta.topic}, Essence: ${meta.essence}, Strategy: ${meta.strategy}. ${keywordContext} Output JSON: {"unit":string,"type":string,"question":string,"description":string}`
-        : `Generate OPIc question for "${units[selectedUnitIdx!].topic}". ${keywordContext} JSON: {"unit":string,"type":string,"question":string,"description":string}`;
-      const res = await ai.models.generateContent({ model: "gemini-3-flash-preview", contents: prompt, config: { responseMimeType: "application/json" } });
-      setCurrentQuestion(JSON.parse(res.text!));
+        ? `As an OPIc expert, generate a realistic exam question based on these: Topic: ${meta.topic}, Essence: ${meta.essence}, Strategy: ${meta.strategy}. ${typeContext}${keywordContext}${difficultyContext} Output JSON: {"unit":string,"type":string,"question":string,"description":string}`
+        : `Generate OPIc question for "${units[selectedUnitIdx!].topic}". ${typeContext}${keywordContext}${difficultyContext} JSON: {"unit":string,"type":string,"question":string,"description":string}`;
+      setCurrentQuestion(await generateValidatedJson<OPIcQuestion>(ai, { model: "gemini-3-flash-preview", contents: prompt }, QUESTION_SCHEMA));
       setUserKeywords("");
       setFeedbackResult(null);
       setIsUnitPreview(false);
@@ -701,7 +1350,9 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
       alert("질문을 입력해주세요.");
       return;
     }
+    if (!resolvePracticeSet()) return;
     stopAllAudio();
+    setComboSet(null);
     setIsRestudyMode(false);
     setShowTranslation(false);
     setExtractedVocab([]);
@@ -717,8 +1368,81 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
     setIsUnitPreview(false);
   };
 
+  const startComboSession = async () => {
+    const activeSet = resolvePracticeSet();
+    if (!activeSet) return;
+    setIsGenerating(true);
+    stopAllAudio();
+    setIsRestudyMode(false);
+    setShowTranslation(false);
+    setExtractedVocab([]);
+    const currentUnit = units[selectedUnitIdx!];
+    const meta = masterQuestionDb.find(q => q.fullId === currentUnit.fullId);
+    try {
+      const ai = getAiInstance();
+      const keywordContext = aiGenKeyword ? `Reflect this specific context or keyword in the questions: "${aiGenKeyword}". ` : "";
+      const difficultyContext = `${buildSelfAssessmentContext(user.context.selfAssessment)} ${buildAdjustmentContext(activeSet.adjustment)}`.trim();
+      const generated = await generateValidatedJson<OPIcQuestion[]>(ai, {
+        model: "gemini-3-flash-preview",
+        contents: `As an OPIc expert, generate a realistic ${COMBO_SIZE}-question combo set on ONE topic, exactly as the real exam links them.
+Topic: ${meta?.topic || currentUnit.topic}${meta ? `, Essence: ${meta.essence}, Strategy: ${meta.strategy}` : ""}.
+Q1: Description (describe the place/thing/person). Q2: Routine or habit. Q3: A memorable past experience.
+All ${COMBO_SIZE} questions must refer to the same topic and build on each other. ${keywordContext}${difficultyContext}
+Output JSON array: [{"unit":string,"type":string,"question":string,"description":string}]`
+      }, data => validateAiJsonArray(data, QUESTION_SCHEMA, COMBO_SIZE));
+      const questions = generated.slice(0, COMBO_SIZE);
+      const comboId = `COMBO_${Date.now()}_${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
+      setComboSet({ comboId, questions, index: 0 });
+      setCurrentQuestion(questions[0]);
+      setUserKeywords("");
+      setFeedbackResult(null);
+      setIsUnitPreview(false);
+    } catch (e) { alert("콤보 질문 생성 실패"); } finally { setIsGenerating(false); }
+  };
+
+  const goToNextComboQuestion = () => {
+    if (!comboSet || !hasNextComboQuestion || needsRelevel) return;
+    stopAllAudio();
+    const nextIndex = comboSet.index + 1;
+    setComboSet({ ...comboSet, index: nextIndex });
+    setCurrentQuestion(comboSet.questions[nextIndex]);
+    setUserKeywords("");
+    setFeedbackResult(null);
+    setShowTranslation(false);
+    setExtractedVocab([]);
+  };
+
+  const startRolePlaySession = async () => {
+    const activeSet = resolvePracticeSet();
+    if (!activeSet) return;
+    setIsGenerating(true);
+    stopAllAudio();
+    setComboSet(null);
+    setIsRestudyMode(false);
+    setShowTranslation(false);
+    setExtractedVocab([]);
+    const currentUnit = units[selectedUnitIdx!];
+    const meta = masterQuestionDb.find(q => q.fullId === currentUnit.fullId);
+    try {
+      const ai = getAiInstance();
+      const keywordContext = aiGenKeyword ? `Reflect this specific context or keyword in the situation: "${aiGenKeyword}". ` : "";
+      const prompt = buildRolePlayScenarioPrompt(rolePlayType, meta?.topic || currentUnit.topic, meta?.essence, `${keywordContext}${buildSelfAssessmentContext(user.context.selfAssessment)} ${buildAdjustmentContext(activeSet.adjustment)}`.trim());
+      const generated = await generateValidatedJson<OPIcQuestion>(ai, { model: "gemini-3-flash-preview", contents: prompt }, QUESTION_SCHEMA);
+      const question: OPIcQuestion = { ...generated, rolePlayType };
+      setCurrentQuestion(question);
+      setUserKeywords("");
+      setFeedbackResult(null);
+      setIsUnitPreview(false);
+    } catch (e) { alert("롤플레이 상황 생성 실패"); } finally { setIsGenerating(false); }
+  };
+
   const restudyLog = (log: StudyLogEntry) => {
     stopAllAudio();
+    setComboSet(null);
+    setRestudySessionId(log.sessionId);
+    setRestudyCombo(log.comboId
+      ? unitHistory.filter(h => h.comboId === log.comboId).sort((a, b) => a.sessionId.localeCompare(b.sessionId))
+      : []);
     setIsVocabularyView(false);
     setIsUnitPreview(false);
     setIsRestudyMode(true);
@@ -739,6 +1463,7 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
     }
 
     setFeedbackResult({ 
+      sessionId: log.sessionId,
       transcript: log.rawAnswer, 
       correction: log.correction, 
       translatedAnswer: log.translatedAnswer,
@@ -748,7 +1473,16 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
       predictedLevel: log.grade || "",
       rawAudioLink: log.rawAudioLink,
       audioLink: log.audioLink,
-      date: log.date
+      date: log.date,
+      rolePlayRubric: parseRolePlayRubric(log.rolePlayRubric),
+      answerDurationSec: log.answerDurationSec,
+      rubric: log.rubric,
+      gradeConsensus: log.gradeSamples && log.gradeSamples.length > 1 ? aggregateGrades(log.gradeSamples) || undefined : undefined,
+      fluency: log.fluency,
+      grammarCorrections: log.grammarCorrections,
+      pronunciationIssues: log.pronunciationIssues,
+      shadowing: log.shadowing,
+      modelVoice: log.modelVoice
     });
     setUserKeywords(log.keywords || "");
     window.scrollTo({ top: 0, behavior: 'smooth' });
@@ -775,6 +1509,9 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
 
   const openVocabularyBank = async () => {
     setIsVocabularyView(true);
+    setIsMockExamView(false);
+    setIsFluencyView(false);
+    setIsMistakeView(false);
     setIsSidebarOpen(false);
     setSelectedUnitIdx(null);
     setIsUnitPreview(false);
@@ -789,13 +1526,46 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
     }
   };
 
+  const openFluencyTrends = () => {
+    stopAllAudio();
+    setIsFluencyView(true);
+    setIsMistakeView(false);
+    setIsMockExamView(false);
+    setIsVocabularyView(false);
+    setIsSidebarOpen(false);
+    setSelectedUnitIdx(null);
+    setIsUnitPreview(false);
+  };
+
+  const openRecurringMistakes = () => {
+    stopAllAudio();
+    setIsMistakeView(true);
+    setIsFluencyView(false);
+    setIsMockExamView(false);
+    setIsVocabularyView(false);
+    setIsSidebarOpen(false);
+    setSelectedUnitIdx(null);
+    setIsUnitPreview(false);
+  };
+
+  const openMockExam = () => {
+    stopAllAudio();
+    setIsMockExamView(true);
+    setIsVocabularyView(false);
+    setIsFluencyView(false);
+    setIsMistakeView(false);
+    setIsSidebarOpen(false);
+    setSelectedUnitIdx(null);
+    setIsUnitPreview(false);
+  };
+
   const extractKeyVocab = async () => {
     if (!feedbackResult || isExtractingVocab) return;
     setIsExtractingVocab(true);
     const modelAnswer = feedbackResult.correction.split(PART_DELIMITER).join(" ");
     try {
       const ai = getAiInstance();
-      const res = await ai.models.generateContent({
+      const data = await generateValidatedJson<any[]>(ai, {
         model: "gemini-3-flash-preview",
         contents: `You are an OPIc expert. From the provided model answer, extract exactly 10 essential expressions or phrases that are critical for achieving an AL (Advanced Low) grade.
         For each expression, provide:
@@ -804,10 +1574,8 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
         3. usageExample (a short natural English sentence using the expression)
         Output MUST be a JSON array of objects like: [{"expression": "...", "meaning": "...", "usageExample": "..."}]
         
-        Model Answer: "${modelAnswer}"`,
-        config: { responseMimeType: "application/json" }
-      });
-      const data = JSON.parse(res.text!);
+        Model Answer: "${modelAnswer}"`
+      }, data => validateAiJsonArray(data, VOCAB_SCHEMA));
       setExtractedVocab(data);
     } catch (e) {
       console.error("Vocab Extraction Fail", e);
@@ -872,6 +1640,63 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
     );
   };
 
+  const chooseDifficultyAdjustment = (adjustment: DifficultyAdjustment) => {
+    setPracticeSet(prev => ({ ...prev, adjustment }));
+  };
+
+  const renderRelevelPrompt = () => (
+    <div className="p-5 bg-amber-50 border border-amber-200 rounded-2xl hidden-print animate-in slide-in-from-bottom-4 duration-500">
+      <h4 className="text-sm font-black text-slate-800 mb-1">세트의 전반부({RELEVEL_AFTER}문항)를 마쳤습니다. 남은 질문의 난이도를 선택하세요.</h4>
+      <p className="text-[11px] font-bold text-slate-500 mb-4">지금까지의 등급: {practiceSet.levels.join(' · ')}</p>
+      <div className="grid grid-cols-3 gap-2">
+        {(['EASIER', 'SAME', 'HARDER'] as DifficultyAdjustment[]).map(adj => (
+          <button key={adj} onClick={() => chooseDifficultyAdjustment(adj)} className="py-3 bg-white border border-amber-200 rounded-xl text-xs font-black text-slate-700 hover:bg-amber-500 hover:text-white transition-all">
+            {DIFFICULTY_ADJUSTMENT_LABELS[adj]}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+
+  const renderGradeConsensus = (consensus: GradeConsensus) => {
+    const spread = getGradeSpread(consensus.samples);
+    return (
+      <div className={`mb-3 px-3 py-2 rounded-xl border text-[10px] font-bold print:text-[9px] ${isUnstableConsensus(consensus.samples) ? 'bg-amber-50 border-amber-200 text-amber-700' : 'bg-white border-slate-200 text-slate-600'}`}>
+        <span className="font-black">합의 등급 {consensus.level}</span>
+        <span> · 신뢰도 {Math.round(consensus.confidence * 100)}%</span>
+        <span> · 채점 {consensus.samples.join(' / ')}</span>
+        {spread && spread.min !== spread.max && <span> (범위 {spread.min}~{spread.max})</span>}
+      </div>
+    );
+  };
+
+  const renderHistoryItem = (h: StudyLogEntry) => (
+    <div key={h.sessionId} className="flex flex-col gap-4 p-5 transition-all border bg-slate-50 rounded-2xl border-slate-100 lg:flex-row hover:bg-white hover:shadow-lg">
+      <div className="flex-grow">
+        <div className="flex items-start justify-between mb-2">
+          <div className="flex items-center space-x-2">
+            <span className="text-[9px] font-black text-slate-300 uppercase tracking-tighter">{h.date}</span>
+            {h.grade && h.grade !== "-" && (
+              <span className="bg-blue-600 text-white text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter">{h.grade}</span>
+            )}
+            {!!h.answerDurationSec && <span className="text-[9px] font-black text-slate-400 tabular-nums">{formatClock(h.answerDurationSec * 1000)}</span>}
+            {h.gradeSamples && h.gradeSamples.length > 1 && <span className="text-[8px] font-black text-slate-400 tracking-tighter">{h.gradeSamples.join('/')}</span>}
+            {h.questionReplayed && <span className="text-[8px] font-black text-amber-500 uppercase tracking-tighter">Replay</span>}
+          </div>
+          <div className="flex space-x-1">
+            <button onClick={() => restudyLog(h)} className="px-3 py-1 bg-white text-blue-600 border border-blue-100 rounded-full text-[9px] font-black hover:bg-blue-600 hover:text-white transition-all shadow-sm">복습</button>
+            <button onClick={() => handleDeleteLog(h)} className="p-1 transition-colors text-slate-200 hover:text-red-500">{deletingId === h.sessionId ? "..." : <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>}</button>
+          </div>
+        </div>
+        <p className="mb-3 text-xs font-bold italic text-slate-800 line-clamp-2">"{h.question}"</p>
+        <div className="flex flex-wrap gap-2">
+          {h.rawAudioLink && <button onClick={() => playHighQualityAudio("", `user-${h.sessionId}`, h.rawAudioLink)} className="flex items-center space-x-2 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-[9px] font-black border border-blue-100">{renderSpeakerIcon(`user-${h.sessionId}`, "text-blue-500")}<span>내 답변 듣기</span></button>}
+          {h.audioLink && <button onClick={() => playHighQualityAudio(h.correction, `model-${h.sessionId}`, h.audioLink, getModelVoice(h.modelVoice), true)} className="flex items-center space-x-2 bg-green-50 text-green-600 px-3 py-1.5 rounded-full text-[9px] font-black border border-green-100">{renderSpeakerIcon(`model-${h.sessionId}`, "text-green-500")}<span>AL 모범답안</span></button>}
+        </div>
+      </div>
+    </div>
+  );
+
   const toggleDirection = (dir: AnswerDirection) => {
     setSelectedDirection(prev => prev === dir ? null : dir);
   };
@@ -885,6 +1710,36 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
     window.print();
   };
 
+  const downloadStudyPack = async () => {
+    const logs = allLogsForPrint.filter(l => selectedLogIds.has(l.sessionId) && canAddToStudyPack(l));
+    if (logs.length === 0) { alert("모범답안이 있는 학습 내역을 선택해 주세요."); return; }
+    if (logs.length > STUDY_PACK_MAX_ITEMS) { alert(`한 번에 최대 ${STUDY_PACK_MAX_ITEMS}개까지 만들 수 있습니다.`); return; }
+    setStudyPackProgress({ done: 0, total: logs.length });
+    try {
+      const chunks: Uint8Array[] = [];
+      for (const [i, log] of logs.entries()) {
+        const plainCorrection = (log.correction || "").split(PART_DELIMITER).join(" ").trim();
+        chunks.push(await getTtsPcm(buildStudyPackPrompt(log, i)), createSilence(STUDY_PACK_PROMPT_GAP_SEC));
+        chunks.push(log.audioLink ? await getModelAnswerPcm(plainCorrection, log.audioLink, getModelVoice(log.modelVoice)) : await getTtsPcm(plainCorrection));
+        chunks.push(createSilence(STUDY_PACK_ITEM_GAP_SEC));
+        setStudyPackProgress({ done: i + 1, total: logs.length });
+      }
+      const url = URL.createObjectURL(pcmToWav(concatPcm(chunks)));
+      const link = document.createElement("a");
+      link.setAttribute("href", url);
+      link.setAttribute("download", buildStudyPackFileName(user.name));
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e) {
+      console.error("Study pack failed", e);
+      alert("음성 모음 생성 중 오류가 발생했습니다.");
+    } finally {
+      setStudyPackProgress(null);
+    }
+  };
+
   const handleBatchPrintTrigger = () => {
     if (selectedLogIds.size === 0) {
       alert("출력할 학습 내역을 최소 하나 선택해 주세요.");
@@ -1025,6 +1880,7 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                         <div className="flex items-center space-x-2 mb-0.5">
                            <span className="text-[9px] font-black text-slate-300 uppercase tracking-tighter">{log.date}</span>
                            <span className="bg-blue-600 text-white text-[8px] font-black px-1.5 rounded italic uppercase">{log.grade}</span>
+                           {log.comboId && <span className="bg-slate-900 text-white text-[8px] font-black px-1.5 rounded uppercase">{log.type.split(' · ')[0]}</span>}
                         </div>
                         <h4 className="font-bold text-sm text-slate-800 truncate">{log.unit}</h4>
                         <p className="text-[10px] text-slate-500 truncate italic">Q: {log.question}</p>
@@ -1034,7 +1890,15 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                 </div>
               )}
             </div>
-            <div className="p-6 border-t border-slate-50 bg-slate-50 shrink-0">
+            <div className="p-6 border-t border-slate-50 bg-slate-50 shrink-0 space-y-3">
+               <button 
+                onClick={downloadStudyPack}
+                disabled={selectedLogIds.size === 0 || !!studyPackProgress}
+                className="w-full py-3 rounded-[20px] font-black text-sm bg-white text-blue-600 border border-blue-200 hover:bg-blue-50 transition-all flex items-center justify-center space-x-2 disabled:opacity-50 disabled:hover:bg-white"
+               >
+                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M9 19V6l12-3v13M9 19c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zm12-3c0 1.105-1.343 2-3 2s-3-.895-3-2 1.343-2 3-2 3 .895 3 2zM9 10l12-3"/></svg>
+                 <span>{studyPackProgress ? `음성 모음 만드는 중 ${studyPackProgress.done}/${studyPackProgress.total}` : `선택한 모범답안 음성 모음 다운로드 (WAV)`}</span>
+               </button>
                <button 
                 onClick={handleBatchPrintTrigger}
                 disabled={selectedLogIds.size === 0}
@@ -1048,6 +1912,12 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
         </div>
       )}
 
+      <PendingAnalyses jobs={analysisJobs} isOnline={isOnline} onRetry={retryAnalysisJob} onDiscard={discardAnalysisJob} />
+
+      {isCalibratingMic && (
+        <MicCalibration onComplete={finishMicCalibration} onCancel={() => finishMicCalibration()} />
+      )}
+
       {isGenerating && (
         <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur flex items-center justify-center p-6 hidden-print">
           <div className="bg-white p-8 rounded-[32px] shadow-2xl text-center max-w-xs w-full">
@@ -1058,7 +1928,7 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
       )}
       
       <nav className="bg-white border-b px-4 py-3 flex justify-between items-center sticky top-0 z-50 hidden-print">
-        <div className="flex items-center space-x-2 cursor-pointer" onClick={() => { setSelectedUnitIdx(null); setIsSidebarOpen(false); setIsVocabularyView(false); }}>
+        <div className="flex items-center space-x-2 cursor-pointer" onClick={() => { setSelectedUnitIdx(null); setIsSidebarOpen(false); setIsVocabularyView(false); setIsMockExamView(false); setIsFluencyView(false); setIsMistakeView(false); }}>
           <div className="w-8 h-8 bg-blue-600 rounded-lg flex items-center justify-center shadow-md">
             <span className="text-white text-xs font-black italic">OF</span>
           </div>
@@ -1130,6 +2000,43 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                   <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 6.253v13m0-13C10.832 5.477 9.246 5 7.5 5S4.168 5.477 3 6.253v13C4.168 18.477 5.754 18 7.5 18s3.332.477 4.5 1.253m0-13C13.168 5.477 14.754 5 16.5 5c1.747 0 3.332.477 4.5 1.253v13C19.832 18.477 18.247 18 16.5 18c-1.746 0-3.332.477-4.5 1.253"/></svg>
                   <span>단어장</span>
                 </button>
+                <button 
+                  onClick={openMockExam}
+                  className={`col-span-2 py-2 px-3 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center justify-center space-x-1 border ${isMockExamView ? 'bg-slate-900 text-white border-slate-900 shadow-md' : 'bg-slate-50 hover:bg-slate-100 text-slate-500 border-slate-100'}`}
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg>
+                  <span>실전 모의고사 (15문항)</span>
+                </button>
+                <button 
+                  onClick={openFluencyTrends}
+                  className={`py-2 px-3 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center justify-center space-x-1 border ${isFluencyView ? 'bg-blue-600 text-white border-blue-600 shadow-md' : 'bg-slate-50 hover:bg-slate-100 text-slate-500 border-slate-100'}`}
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M7 12l3-3 3 3 4-4M8 21l4-4 4 4M3 4h18M4 4h16v12a1 1 0 01-1 1H5a1 1 0 01-1-1V4z"/></svg>
+                  <span>유창성 추이</span>
+                </button>
+                <button 
+                  onClick={openRecurringMistakes}
+                  className={`py-2 px-3 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all flex items-center justify-center space-x-1 border ${isMistakeView ? 'bg-blue-600 text-white border-blue-600 shadow-md' : 'bg-slate-50 hover:bg-slate-100 text-slate-500 border-slate-100'}`}
+                >
+                  <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 9v2m0 4h.01m-6.938 4h13.856c1.54 0 2.502-1.667 1.732-3L13.732 4c-.77-1.333-2.694-1.333-3.464 0L3.34 16c-.77 1.333.192 3 1.732 3z"/></svg>
+                  <span>반복 실수</span>
+                </button>
+                <button 
+                  onClick={handleClearAudioCache}
+                  disabled={audioCacheBytes === 0}
+                  className="col-span-2 py-1.5 text-[8px] font-black text-slate-400 uppercase tracking-widest hover:text-slate-600 transition-all disabled:opacity-50 disabled:hover:text-slate-400"
+                >
+                  오디오 캐시 {(audioCacheBytes / (1024 * 1024)).toFixed(1)}MB · 비우기
+                </button>
+                {legacyModelAudioFiles.length > 0 && (
+                  <button 
+                    onClick={migrateLegacyModelAudio}
+                    disabled={!!audioMigration}
+                    className="col-span-2 py-2 px-3 bg-amber-50 hover:bg-amber-100 text-amber-700 rounded-xl text-[9px] font-black tracking-widest transition-all border border-amber-100 disabled:opacity-60"
+                  >
+                    {audioMigration ? `음성 변환 중 ${audioMigration.done}/${audioMigration.total}` : `예전 모범답안 음성 ${legacyModelAudioFiles.length}개 WAV로 변환`}
+                  </button>
+                )}
               </div>
             </div>
             <div className="flex-grow space-y-3 overflow-y-auto custom-scrollbar p-3">
@@ -1261,6 +2168,18 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                     </div>
                   )}
                 </div>
+              ) : isMockExamView ? (
+                <MockExam 
+                  user={user} 
+                  units={units} 
+                  questionDb={masterQuestionDb} 
+                  getAiInstance={getAiInstance} 
+                  onExit={() => setIsMockExamView(false)} 
+                />
+              ) : isFluencyView ? (
+                <FluencyTrends user={user} onExit={() => setIsFluencyView(false)} />
+              ) : isMistakeView ? (
+                <RecurringMistakes user={user} getAiInstance={getAiInstance} onExit={() => setIsMistakeView(false)} />
               ) : !selectedUnitIdx && selectedUnitIdx !== 0 ? (
                 <div className="flex flex-col items-center justify-center h-full py-10 text-center">
                   <div className="w-16 h-16 lg:w-20 lg:h-20 bg-blue-50 rounded-[32px] lg:rounded-[40px] flex items-center justify-center text-blue-600 mb-6 shadow-inner animate-pulse"><svg className="w-8 h-8 lg:w-10 lg:h-10" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M13 10V3L4 14h7v7l9-11h-7z"/></svg></div>
@@ -1302,9 +2221,22 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                         >
                           직접 입력
                         </button>
+                        <button 
+                          onClick={() => setGenMode('COMBO')} 
+                          className={`flex-1 py-4 text-xs font-black uppercase tracking-widest transition-all ${genMode === 'COMBO' ? 'bg-white text-blue-600 border-b-2 border-blue-600' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          콤보 세트
+                        </button>
+                        <button 
+                          onClick={() => setGenMode('ROLE_PLAY')} 
+                          className={`flex-1 py-4 text-xs font-black uppercase tracking-widest transition-all ${genMode === 'ROLE_PLAY' ? 'bg-white text-blue-600 border-b-2 border-blue-600' : 'text-slate-400 hover:text-slate-600'}`}
+                        >
+                          롤플레이
+                        </button>
                       </div>
                       
                       <div className="p-6">
+                        {needsRelevel && <div className="mb-4">{renderRelevelPrompt()}</div>}
                         {genMode === 'AI' ? (
                           <div className="space-y-4 animate-in fade-in duration-300">
                             <div className="text-left">
@@ -1322,6 +2254,50 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                               <span>AI 질문 생성 시작</span>
                             </button>
                           </div>
+                        ) : genMode === 'COMBO' ? (
+                          <div className="space-y-4 animate-in fade-in duration-300">
+                            <div className="text-left">
+                              <p className="text-xs font-bold text-slate-500 leading-relaxed mb-4">실제 시험처럼 한 주제에 대해 <span className="text-blue-600">묘사 → 루틴 → 과거 경험</span> 순서로 연결된 {COMBO_SIZE}개의 질문을 연속으로 답변합니다.</p>
+                              <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2 block">상황/키워드 추가 (선택사항)</label>
+                              <input 
+                                type="text" 
+                                value={aiGenKeyword}
+                                onChange={(e) => setAiGenKeyword(e.target.value)}
+                                placeholder="ex) 친구와 약속, 주말 여행, 장비 고장 등" 
+                                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none focus:border-blue-400 transition-all font-bold text-sm"
+                              />
+                            </div>
+                            <button onClick={startComboSession} className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black text-lg shadow-xl shadow-blue-100 hover:bg-blue-700 transition-all flex items-center justify-center space-x-2">
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M4 6h16M4 12h16M4 18h16"/></svg>
+                              <span>콤보 {COMBO_SIZE}문항 시작</span>
+                            </button>
+                          </div>
+                        ) : genMode === 'ROLE_PLAY' ? (
+                          <div className="space-y-4 animate-in fade-in duration-300">
+                            <div className="text-left">
+                              <p className="text-xs font-bold text-slate-500 leading-relaxed mb-4">시험관 <span className="text-blue-600">Ava</span>가 상황을 음성으로 제시합니다. 실제 시험의 11~13번 롤플레이 유형을 선택하세요.</p>
+                              <div className="grid grid-cols-3 gap-2 mb-4">
+                                {(Object.keys(ROLE_PLAY_TYPES) as RolePlayType[]).map(type => (
+                                  <button key={type} onClick={() => setRolePlayType(type)} className={`py-3 rounded-2xl border text-xs font-black transition-all ${rolePlayType === type ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}>
+                                    <span className="block text-[9px] opacity-70">Q{ROLE_PLAY_TYPES[type].number}</span>
+                                    {ROLE_PLAY_TYPES[type].label}
+                                  </button>
+                                ))}
+                              </div>
+                              <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2 block">상황/키워드 추가 (선택사항)</label>
+                              <input 
+                                type="text" 
+                                value={aiGenKeyword}
+                                onChange={(e) => setAiGenKeyword(e.target.value)}
+                                placeholder="ex) 친구와 약속, 주말 여행, 장비 고장 등" 
+                                className="w-full px-4 py-3 bg-white border border-slate-200 rounded-2xl outline-none focus:border-blue-400 transition-all font-bold text-sm"
+                              />
+                            </div>
+                            <button onClick={startRolePlaySession} className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black text-lg shadow-xl shadow-blue-100 hover:bg-blue-700 transition-all flex items-center justify-center space-x-2">
+                              <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M8 10h.01M12 10h.01M16 10h.01M9 16H5a2 2 0 01-2-2V6a2 2 0 012-2h14a2 2 0 012 2v8a2 2 0 01-2 2h-5l-5 5v-5z"/></svg>
+                              <span>Ava와 롤플레이 시작</span>
+                            </button>
+                          </div>
                         ) : (
                           <div className="space-y-4 animate-in fade-in duration-300">
                             <div className="text-left">
@@ -1346,29 +2322,15 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                     <div className="pt-8 pb-6 mt-10 border-t hidden-print">
                       <h3 className="flex items-center mb-6 space-x-2 text-base font-black text-slate-800"><svg className="w-5 h-5 text-blue-600" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M12 8v4l3 3m6-3a9 9 0 11-18 0 9 9 0 0118 0z"/></svg><span>최근 학습 이력 <span className="text-blue-600">({unitHistory.length})</span></span></h3>
                       <div className="grid gap-4">
-                        {unitHistory.map((h) => (
-                          <div key={h.sessionId} className="flex flex-col gap-4 p-5 transition-all border bg-slate-50 rounded-2xl border-slate-100 lg:flex-row hover:bg-white hover:shadow-lg">
-                            <div className="flex-grow">
-                              <div className="flex items-start justify-between mb-2">
-                                <div className="flex items-center space-x-2">
-                                  <span className="text-[9px] font-black text-slate-300 uppercase tracking-tighter">{h.date}</span>
-                                  {h.grade && h.grade !== "-" && (
-                                    <span className="bg-blue-600 text-white text-[8px] font-black px-1.5 py-0.5 rounded uppercase tracking-tighter">{h.grade}</span>
-                                  )}
-                                </div>
-                                <div className="flex space-x-1">
-                                  <button onClick={() => restudyLog(h)} className="px-3 py-1 bg-white text-blue-600 border border-blue-100 rounded-full text-[9px] font-black hover:bg-blue-600 hover:text-white transition-all shadow-sm">복습</button>
-                                  <button onClick={() => handleDeleteLog(h)} className="p-1 transition-colors text-slate-200 hover:text-red-500">{deletingId === h.sessionId ? "..." : <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"/></svg>}</button>
-                                </div>
-                              </div>
-                              <p className="mb-3 text-xs font-bold italic text-slate-800 line-clamp-2">"{h.question}"</p>
-                              <div className="flex flex-wrap gap-2">
-                                {h.rawAudioLink && <button onClick={() => playHighQualityAudio("", `user-${h.sessionId}`, h.rawAudioLink)} className="flex items-center space-x-2 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-[9px] font-black border border-blue-100">{renderSpeakerIcon(`user-${h.sessionId}`, "text-blue-500")}<span>내 답변 듣기</span></button>}
-                                {h.audioLink && <button onClick={() => playHighQualityAudio(h.correction, `model-${h.sessionId}`, h.audioLink)} className="flex items-center space-x-2 bg-green-50 text-green-600 px-3 py-1.5 rounded-full text-[9px] font-black border border-green-100">{renderSpeakerIcon(`model-${h.sessionId}`, "text-green-500")}<span>AL 모범답안</span></button>}
-                              </div>
+                        {groupLogsByCombo(unitHistory).map((group) => group[0].comboId ? (
+                          <div key={group[0].comboId} className="p-3 space-y-3 border-2 border-dashed border-blue-100 rounded-3xl">
+                            <div className="flex items-center space-x-2 px-2">
+                              <span className="bg-blue-600 text-white text-[8px] font-black px-2 py-0.5 rounded-full uppercase tracking-widest">Combo Set</span>
+                              <span className="text-[9px] font-bold text-slate-400">{group.length}문항 연결 질문</span>
                             </div>
+                            {group.map(renderHistoryItem)}
                           </div>
-                        ))}
+                        ) : renderHistoryItem(group[0]))}
                       </div>
                     </div>
                   )}
@@ -1378,6 +2340,30 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                   {currentQuestion && (
                     <>
                       {isRestudyMode && <div className="flex items-center space-x-2 text-blue-600 font-black text-[9px] uppercase mb-1 bg-blue-50 px-4 py-2 rounded-full w-fit hidden-print"><span className="w-1.5 h-1.5 bg-blue-600 rounded-full animate-pulse"></span><span>Review Mode</span></div>}
+                      {!isRestudyMode && practiceSet.levels.length > 0 && (
+                        <div className="flex items-center space-x-2 text-slate-500 font-black text-[9px] uppercase mb-1 bg-slate-100 px-4 py-2 rounded-full w-fit hidden-print">
+                          <span>Practice Set {Math.min(practiceSet.levels.length, PRACTICE_SET_SIZE)}/{PRACTICE_SET_SIZE}</span>
+                          {practiceSet.adjustment && <span className="text-blue-600">· {DIFFICULTY_ADJUSTMENT_LABELS[practiceSet.adjustment]}</span>}
+                        </div>
+                      )}
+                      {!isRestudyMode && comboSet && (
+                        <div className="flex items-center space-x-2 hidden-print">
+                          <span className="bg-blue-600 text-white text-[9px] font-black px-3 py-1 rounded-full uppercase tracking-widest">Combo {comboSet.index + 1}/{comboSet.questions.length}</span>
+                          <div className="flex space-x-1">
+                            {comboSet.questions.map((_, i) => <div key={i} className={`w-6 h-1.5 rounded-full ${i <= comboSet.index ? 'bg-blue-600' : 'bg-slate-200'}`}></div>)}
+                          </div>
+                        </div>
+                      )}
+                      {isRestudyMode && restudyCombo.length > 1 && (
+                        <div className="flex items-center space-x-2 hidden-print">
+                          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Combo Set</span>
+                          {restudyCombo.map((log, i) => (
+                            <button key={log.sessionId} onClick={() => restudyLog(log)} className={`px-3 py-1 rounded-full text-[9px] font-black border transition-all ${restudySessionId === log.sessionId ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-blue-300'}`}>
+                              Q{i + 1} {log.grade && log.grade !== "-" ? `· ${log.grade}` : ""}
+                            </button>
+                          ))}
+                        </div>
+                      )}
                       
                       {/* 인쇄용 세션 헤더 (종합 리포트 스타일) */}
                       {feedbackResult && (
@@ -1398,10 +2384,33 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
 
                       <div className="p-5 transition-all border bg-slate-50 rounded-2xl lg:p-8 border-slate-100 flex items-start gap-4 hover:bg-white hover:shadow-sm print:shadow-none print:border-slate-300 print:bg-white print:p-4 print:rounded-xl print:mb-4">
                         <div className="flex-grow">
-                          <span className="text-[8px] font-black text-blue-600 uppercase tracking-widest mb-1 block print:text-slate-400 print:text-[8px]">Question ({units[selectedUnitIdx!].essence})</span>
-                          <h2 className="text-lg font-bold leading-snug tracking-tight lg:text-xl text-slate-800 print:text-sm print:italic">"{currentQuestion.question}"</h2>
+                          <div className="flex items-center justify-between mb-1">
+                            <span className="text-[8px] font-black text-blue-600 uppercase tracking-widest block print:text-slate-400 print:text-[8px]">Question ({units[selectedUnitIdx!].essence})</span>
+                            {!isRestudyMode && (
+                              <button onClick={toggleExamRealism} className={`px-2.5 py-1 rounded-full text-[8px] font-black uppercase tracking-widest border transition-all hidden-print ${isExamRealism ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-400 border-slate-200 hover:border-slate-400'}`}>
+                                실전 모드 {isExamRealism ? 'ON' : 'OFF'}
+                              </button>
+                            )}
+                          </div>
+                          {isListeningOnly ? (
+                            <div className="py-1">
+                              <h2 className="text-lg font-bold leading-snug tracking-tight lg:text-xl text-slate-300">질문을 듣고 답변하세요</h2>
+                              <p className="mt-1 text-[10px] font-bold text-slate-400">
+                                {questionListening.phase === 'PLAYING' || questionListening.phase === 'REPLAYING' ? 'Ava가 질문을 읽는 중입니다...'
+                                  : questionListening.phase === 'REPLAY_WINDOW' ? `${QUESTION_REPLAY_WINDOW_MS / 1000}초 안에 한 번 더 들을 수 있습니다.`
+                                  : '다시 듣기 기회가 끝났습니다. 답변 후 질문이 공개됩니다.'}
+                              </p>
+                            </div>
+                          ) : (
+                            <>
+                              <h2 className="text-lg font-bold leading-snug tracking-tight lg:text-xl text-slate-800 print:text-sm print:italic">"{currentQuestion.question}"</h2>
+                              <div className="mt-3">
+                                <AudioPlayer sourceKey={`${getVoiceKey(ttsVoice)}|${currentQuestion.question}`} load={() => loadAudioBlob(currentQuestion.question)} label="Question" onBeforePlay={stopAllAudio} />
+                              </div>
+                            </>
+                          )}
                         </div>
-                        <button onClick={() => playHighQualityAudio(currentQuestion.question, 'q')} className={`p-3 lg:p-4 rounded-xl shadow-md transition-all shrink-0 hidden-print ${ttsState?.id === 'q' ? 'bg-blue-600 text-white' : 'bg-white text-slate-400'}`}>{renderSpeakerIcon('q', ttsState?.id === 'q' ? 'text-white' : 'text-slate-400')}</button>
+                        <button onClick={playQuestionAudio} disabled={isListeningOnly && questionListening.phase !== 'REPLAY_WINDOW'} className={`p-3 lg:p-4 rounded-xl shadow-md transition-all shrink-0 hidden-print disabled:opacity-40 ${ttsState?.id === questionAudioId ? 'bg-blue-600 text-white' : isListeningOnly && questionListening.phase === 'REPLAY_WINDOW' ? 'bg-white text-blue-600 ring-2 ring-blue-400 animate-pulse' : 'bg-white text-slate-400'}`}>{renderSpeakerIcon(questionAudioId, ttsState?.id === questionAudioId ? 'text-white' : 'text-slate-400')}</button>
                       </div>
                       
                       {feedbackResult ? (
@@ -1419,7 +2428,7 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                                 >
                                   {showTranslation ? '원문만 보기' : '해석 보기'}
                                 </button>
-                                <button onClick={() => playHighQualityAudio(feedbackResult.correction, 'correction', feedbackResult.audioLink)} className={`p-2 rounded-full transition-all hidden-print ${ttsState?.id === 'correction' ? 'bg-white text-blue-600' : 'bg-blue-500 text-white hover:bg-blue-400'}`}>{renderSpeakerIcon('correction', ttsState?.id === 'correction' ? 'text-blue-600' : 'text-white')}</button>
+                                <button onClick={() => playHighQualityAudio(feedbackResult.correction, 'correction', feedbackResult.audioLink, feedbackResult.audioLink ? getModelVoice(feedbackResult.modelVoice) : ttsVoice, true)} className={`p-2 rounded-full transition-all hidden-print ${ttsState?.id === 'correction' ? 'bg-white text-blue-600' : 'bg-blue-500 text-white hover:bg-blue-400'}`}>{renderSpeakerIcon('correction', ttsState?.id === 'correction' ? 'text-blue-600' : 'text-white')}</button>
                               </div>
                             </div>
                             
@@ -1483,6 +2492,35 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                                 </div>
                               )}
                             </div>
+                            <div className="px-6 py-4 space-y-3 border-t border-slate-100 hidden-print">
+                              {feedbackResult.audioLink && (
+                                <AudioPlayer
+                                  sourceKey={feedbackResult.audioLink}
+                                  load={() => loadAudioBlob(feedbackResult.correction, feedbackResult.audioLink, true, getModelVoice(feedbackResult.modelVoice))}
+                                  sentences={buildShadowingSentences(feedbackResult.correctionParts, feedbackResult.correction.split(PART_DELIMITER).join(" ")).map(s => s.text)}
+                                  label="Model"
+                                  onBeforePlay={stopAllAudio}
+                                />
+                              )}
+                              <div className="flex flex-wrap items-center gap-2">
+                                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Voice</span>
+                                <select
+                                  value={ttsVoice.voiceName}
+                                  onChange={(e) => changeTtsVoice({ ...ttsVoice, voiceName: e.target.value })}
+                                  className="px-2 py-1 bg-white border border-slate-200 rounded-lg text-[10px] font-bold text-slate-600 outline-none focus:border-blue-500"
+                                >
+                                  {Object.entries(TTS_VOICES).map(([name, v]) => <option key={name} value={name}>{name} · {v.label}</option>)}
+                                </select>
+                                {(Object.keys(TTS_ACCENTS) as TtsAccent[]).map(accent => (
+                                  <button key={accent} onClick={() => changeTtsVoice({ ...ttsVoice, accent })} className={`px-2 py-0.5 rounded-full text-[9px] font-black border transition-all ${ttsVoice.accent === accent ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-400 border-slate-200 hover:border-slate-400'}`}>{TTS_ACCENTS[accent].label}</button>
+                                ))}
+                                {feedbackResult.audioLink && !isSameVoice(getModelVoice(feedbackResult.modelVoice), ttsVoice) && unitHistory.some(h => h.sessionId === feedbackResult.sessionId) && (
+                                  <button onClick={regenerateModelAudio} disabled={isRegeneratingAudio} className="ml-auto px-3 py-1 rounded-full text-[9px] font-black bg-blue-600 text-white hover:bg-blue-700 transition-all disabled:opacity-50">
+                                    {isRegeneratingAudio ? '음성 생성 중...' : '이 목소리로 다시 만들기'}
+                                  </button>
+                                )}
+                              </div>
+                            </div>
                           </div>
 
                           <div className="mt-4 hidden-print">
@@ -1547,19 +2585,103 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
 
                           <div className="grid gap-4 lg:grid-cols-2 printable-feedback print:grid-cols-1 print:gap-2">
                             <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm relative lg:p-7 print:border-slate-300 print:p-4 break-inside-avoid">
-                              <div className="flex items-center justify-between mb-4 print:mb-2"><h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest print:text-[8px]">Your Transcript</h4>{feedbackResult.rawAudioLink && <button onClick={() => playHighQualityAudio("", 'raw-user', feedbackResult.rawAudioLink)} className="flex items-center space-x-1.5 bg-blue-50 text-blue-600 px-3 py-1.5 rounded-full text-[8px] font-black border border-blue-50 hidden-print">{renderSpeakerIcon('raw-user', "text-blue-500")}<span>다시듣기</span></button>}</div>
+                              <div className="flex items-center justify-between mb-4 print:mb-2"><h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest print:text-[8px]">Your Transcript</h4></div>
+                              {feedbackResult.rawAudioLink && (
+                                <div className="mb-4">
+                                  <AudioPlayer sourceKey={feedbackResult.rawAudioLink} load={() => loadAudioBlob("", feedbackResult.rawAudioLink)} label="My Answer" onBeforePlay={stopAllAudio} />
+                                </div>
+                              )}
                               <p className="text-xs font-bold leading-relaxed italic border-slate-600 lg:text-sm text-slate-600 print:text-[10px]">"{feedbackResult.transcript}"</p>
+                              {!!feedbackResult.answerDurationSec && (
+                                <p className="mt-3 text-[9px] font-black text-slate-400 uppercase tracking-widest print:text-[8px]">
+                                  답변 시간 {formatClock(feedbackResult.answerDurationSec * 1000)} · {ANSWER_TIMING_LABELS[getAnswerTimingStatus(feedbackResult.answerDurationSec, answerTargetSec)]}
+                                </p>
+                              )}
                             </div>
-                            <div className="p-5 bg-slate-50 border border-slate-100 rounded-2xl shadow-sm lg:p-7 print-bg-none print:border-slate-300 print:p-4 break-inside-avoid"><h4 className="text-[9px] font-black text-slate-500 uppercase tracking-widest mb-3 print:mb-2 print:text-[8px]">Ava's Coaching</h4><p className="text-xs font-medium leading-relaxed text-slate-700 whitespace-pre-wrap lg:text-sm print:text-[10px]">{feedbackResult.feedback}</p></div>
+                            <div className="p-5 bg-slate-50 border border-slate-100 rounded-2xl shadow-sm lg:p-7 print-bg-none print:border-slate-300 print:p-4 break-inside-avoid"><h4 className="text-[9px] font-black text-slate-500 uppercase tracking-widest mb-3 print:mb-2 print:text-[8px]">Ava's Coaching</h4>{feedbackResult.gradeConsensus && renderGradeConsensus(feedbackResult.gradeConsensus)}<p className="text-xs font-medium leading-relaxed text-slate-700 whitespace-pre-wrap lg:text-sm print:text-[10px]">{feedbackResult.feedback}</p></div>
                           </div>
-                          
+
+                          {feedbackResult.transcript && feedbackResult.correction && (
+                            <div className="space-y-3">
+                              <button onClick={() => setShowAnswerDiff(!showAnswerDiff)} className={`w-full py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border transition-all hidden-print ${showAnswerDiff ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}>
+                                {showAnswerDiff ? '비교 닫기' : `내 답변 vs 모범답안 비교${feedbackResult.grammarCorrections?.length ? ` · 교정 ${feedbackResult.grammarCorrections.length}건` : ''}`}
+                              </button>
+                              {showAnswerDiff && (
+                                <AnswerDiff
+                                  transcript={feedbackResult.transcript}
+                                  modelAnswer={feedbackResult.correction.split(PART_DELIMITER).join(" ")}
+                                  corrections={feedbackResult.grammarCorrections}
+                                />
+                              )}
+                            </div>
+                          )}
+
+                          {feedbackResult.correction && feedbackResult.audioLink && (isShadowing ? (
+                            <ShadowingPractice
+                              sentences={buildShadowingSentences(feedbackResult.correctionParts, feedbackResult.correction.split(PART_DELIMITER).join(" "))}
+                              progress={feedbackResult.shadowing}
+                              getAiInstance={getAiInstance}
+                              activeAudioId={ttsState?.id || null}
+                              onPlaySentence={playShadowingSentence}
+                              onStopAudio={stopAllAudio}
+                              onSaveProgress={saveShadowingProgress}
+                              onExit={() => setIsShadowing(false)}
+                            />
+                          ) : (
+                            <button onClick={() => { stopAllAudio(); setIsShadowing(true); }} className="w-full py-3 rounded-2xl text-[10px] font-black uppercase tracking-widest border bg-white text-blue-600 border-blue-200 hover:border-blue-400 transition-all hidden-print">
+                              모범답안 쉐도잉{feedbackResult.shadowing ? ` · ${countPassedSentences(feedbackResult.shadowing)}/${feedbackResult.shadowing.scores.length} 통과` : ''}
+                            </button>
+                          ))}
+
+                          {feedbackResult.fluency && <FluencyPanel metrics={feedbackResult.fluency} />}
+
+                          {!!feedbackResult.pronunciationIssues?.length && (
+                            <PronunciationPanel
+                              issues={feedbackResult.pronunciationIssues}
+                              rawAudioLink={feedbackResult.rawAudioLink}
+                              accessToken={user.accessToken}
+                              getAiInstance={getAiInstance}
+                              activeAudioId={ttsState?.id || null}
+                              onPlayModel={(word, id) => playHighQualityAudio(word, id)}
+                              onStopAudio={stopAllAudio}
+                            />
+                          )}
+
+                          {feedbackResult.rubric && <RubricBreakdown rubric={feedbackResult.rubric} level={feedbackResult.predictedLevel} />}
+
+                          {feedbackResult.rolePlayRubric && (
+                            <div className="p-5 bg-white border border-blue-100 rounded-2xl shadow-sm lg:p-7 print:border-slate-300 print:p-4 break-inside-avoid">
+                              <h4 className="text-[9px] font-black text-blue-600 uppercase tracking-widest mb-4 print:mb-2 print:text-[8px]">Role-play Rubric</h4>
+                              <div className="space-y-3 print:space-y-2">
+                                {feedbackResult.rolePlayRubric.criteria.map((c, i) => (
+                                  <div key={i} className="flex items-start gap-3">
+                                    <div className="flex space-x-0.5 shrink-0 pt-1">
+                                      {[1, 2, 3, 4, 5].map(n => <div key={n} className={`w-2.5 h-2.5 rounded-sm ${n <= c.score ? 'bg-blue-600' : 'bg-slate-200'}`}></div>)}
+                                    </div>
+                                    <div className="min-w-0">
+                                      <p className="text-xs font-black text-slate-800 print:text-[10px]">{c.name} <span className="text-blue-600">{c.score}/5</span></p>
+                                      <p className="text-[11px] font-medium text-slate-500 leading-relaxed print:text-[9px]">{c.comment}</p>
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                              {feedbackResult.rolePlayRubric.summary && <p className="mt-4 pt-4 border-t border-slate-100 text-xs font-bold text-slate-700 leading-relaxed print:text-[10px]">{feedbackResult.rolePlayRubric.summary}</p>}
+                            </div>
+                          )}
+
+                          {!isRestudyMode && needsRelevel && renderRelevelPrompt()}
+
                           <div className="flex flex-col gap-3 pt-4 border-t sm:flex-row border-slate-50 hidden-print">
                             <button onClick={() => setIsUnitPreview(true)} className="w-full py-4 text-sm font-black flex-1 bg-slate-100 text-slate-600 rounded-2xl hover:bg-slate-200 transition-all">단원 홈</button>
                             <button onClick={handlePrint} className="w-full py-4 text-sm font-black flex-1 bg-blue-50 text-blue-600 border border-blue-200 rounded-2xl hover:bg-blue-100 transition-all flex items-center justify-center space-x-2">
                                 <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2.5" d="M17 17h2a2 2 0 002-2v-4a2 2 0 00-2-2H5a2 2 0 00-2 2v4a2 2 0 002 2h2m2 4h6a2 2 0 002-2v-4a2 2 0 00-2-2H9a2 2 0 00-2 2v4a2 2 0 002 2zm8-12V5a2 2 0 00-2-2H9a2 2 0 00-2 2v4h10z"/></svg>
                                 <span>리포트 PDF 저장</span>
                             </button>
-                            <button onClick={startNewSession} className="w-full py-4 text-sm font-black text-white shadow-xl flex-[2] bg-slate-900 rounded-2xl hover:bg-blue-600 transition-all">다음 문제 도전</button>
+                            {!isRestudyMode && hasNextComboQuestion ? (
+                              <button onClick={goToNextComboQuestion} disabled={needsRelevel} className="w-full py-4 text-sm font-black text-white shadow-xl flex-[2] bg-blue-600 rounded-2xl hover:bg-blue-700 transition-all disabled:opacity-40">콤보 다음 질문 ({comboSet!.index + 2}/{comboSet!.questions.length})</button>
+                            ) : (
+                              <button onClick={startNewSession} disabled={!isRestudyMode && needsRelevel} className="w-full py-4 text-sm font-black text-white shadow-xl flex-[2] bg-slate-900 rounded-2xl hover:bg-blue-600 transition-all disabled:opacity-40 disabled:hover:bg-slate-900">다음 문제 도전</button>
+                            )}
                           </div>
                         </div>
                       ) : isAnalyzing ? (
@@ -1607,16 +2729,38 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
                           </div>
 
                           <div className="flex flex-col items-center gap-4 py-2 pb-6">
+                            {isRecording ? (
+                              <>
+                                <AnswerTimer elapsedMs={answerElapsedMs} targetSec={answerTargetSec} isPaused={isPaused} />
+                                <LevelMeter analyser={recordingAnalyser} isPaused={isPaused} />
+                              </>
+                            ) : (
+                              <div className="flex items-center space-x-2 hidden-print">
+                                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">목표 답변 시간</span>
+                                {ANSWER_TARGET_OPTIONS.map(sec => (
+                                  <button key={sec} onClick={() => changeAnswerTarget(sec)} className={`px-3 py-1 rounded-full text-[10px] font-black border transition-all ${answerTargetSec === sec ? 'bg-slate-900 text-white border-slate-900' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}>{formatClock(sec * 1000)}</button>
+                                ))}
+                                <button onClick={toggleConsensusMode} title={`같은 녹음을 ${CONSENSUS_SAMPLE_COUNT}회 채점해 중앙값 등급을 사용합니다`} className={`px-3 py-1 rounded-full text-[10px] font-black border transition-all ${isConsensusMode ? 'bg-blue-600 text-white border-blue-600' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}>
+                                  정밀 채점 {isConsensusMode ? 'ON' : 'OFF'}
+                                </button>
+                                <button onClick={() => setIsCalibratingMic(true)} title={`현재 입력 배율 x${loadRecordingGain()}`} className="px-3 py-1 rounded-full text-[10px] font-black border transition-all bg-white text-slate-500 border-slate-200 hover:border-slate-400">
+                                  마이크 보정
+                                </button>
+                              </div>
+                            )}
+                            {!isRecording && recordingTakes.length > 0 && (
+                              <TakeReview takes={recordingTakes} onSubmit={submitTake} onDiscard={discardTake} onBeforePlay={stopAllAudio} />
+                            )}
                             {!isRecording ? (
-                              <button onClick={startRecording} className="w-full py-5 text-lg font-black text-white transition-all shadow-2xl sm:max-w-sm lg:py-6 lg:text-xl bg-red-600 rounded-full flex items-center justify-center space-x-3 active:scale-95">
+                              <button onClick={startRecording} disabled={recordingTakes.length >= MAX_RECORDING_TAKES} className="w-full py-5 text-lg font-black text-white transition-all shadow-2xl sm:max-w-sm lg:py-6 lg:text-xl bg-red-600 rounded-full flex items-center justify-center space-x-3 active:scale-95 disabled:opacity-40 disabled:active:scale-100">
                                 <div className="w-2.5 h-2.5 bg-white rounded-full animate-pulse"></div>
-                                <span>답변 녹음 시작</span>
+                                <span>{recordingTakes.length === 0 ? '답변 녹음 시작' : recordingTakes.length >= MAX_RECORDING_TAKES ? '테이크를 삭제한 뒤 다시 녹음하세요' : `다시 녹음 (Take ${recordingTakes.length + 1})`}</span>
                               </button>
                             ) : (
                               <div className="flex items-center space-x-3 w-full sm:max-w-md">
                                 <button onClick={stopRecording} className="flex-grow py-5 text-lg font-black text-white transition-all shadow-xl bg-slate-900 rounded-[24px] flex items-center justify-center space-x-2 active:scale-95">
                                   <div className="w-2 h-2 bg-red-500 rounded-sm"></div>
-                                  <span>종료 및 분석</span>
+                                  <span>녹음 종료</span>
                                 </button>
                                 
                                 <button 
@@ -1661,7 +2805,7 @@ Output as JSON: {"transcript":string,"correctionParts":{"intro":string,"body":st
             <div key={log.sessionId} className="break-inside-avoid pt-4 border-t-2 border-slate-100 first:border-none">
               <div className="mb-4">
                 <div className="flex justify-between items-center mb-1">
-                  <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">Report #{index + 1} | {log.date}</span>
+                  <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">Report #{index + 1} | {log.date}{log.comboId ? ` | ${log.type.split(' · ')[0]}` : ""}</span>
                   <span className="bg-slate-900 text-white text-[10px] font-black px-2 py-0.5 rounded italic">Level: {log.grade}</span>
                 </div>
                 <h3 className="text-xl font-black text-slate-800 leading-tight mb-2">{log.unit}</h3>
@@ -0,0 +1,298 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GoogleGenAI } from "@google/genai";
+import { FullUser, DrillItem, DrillResult } from '../types';
+import { saveDrillResults, fetchDrillResults } from '../services/api';
+import { blobToBase64, openGainRecorder, GainRecorderSession } from '../services/audio';
+import { isNearSilentRecording, SHORT_CLIP_MIN_VOICED_SEC, SILENT_RECORDING_MESSAGE } from '../services/inputLevel';
+import { cleanAiText, generateValidatedJson, validateAiJsonArray } from '../services/ai';
+import { GRAMMAR_ERROR_CATEGORIES, MistakeSummary } from '../services/grammar';
+import {
+  DRILL_ITEM_SCHEMA, DRILL_GRADE_SCHEMA, DRILL_SET_SIZE, DRILL_TYPE_LABELS,
+  pickDrillTargets, buildDrillPrompt, parseDrillItems, isFillBlankCorrect,
+  buildTransformGradingPrompt, buildSpeakGradingPrompt, parseDrillCorrect, summarizeDrillResults
+} from '../services/drill';
+import LevelMeter from './LevelMeter';
+
+type DrillPhase = 'READY' | 'GENERATING' | 'IN_PROGRESS' | 'RESULT';
+
+interface DrillPracticeProps {
+  user: FullUser;
+  summaries: MistakeSummary[];
+  getAiInstance: () => GoogleGenAI;
+  onExit: () => void;
+}
+
+const DrillPractice: React.FC<DrillPracticeProps> = ({ user, summaries, getAiInstance, onExit }) => {
+  const [phase, setPhase] = useState<DrillPhase>('READY');
+  const [items, setItems] = useState<DrillItem[]>([]);
+  const [currentIdx, setCurrentIdx] = useState(0);
+  const [textAnswer, setTextAnswer] = useState("");
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingAnalyser, setRecordingAnalyser] = useState<AnalyserNode | null>(null);
+  const [isGrading, setIsGrading] = useState(false);
+  const [results, setResults] = useState<DrillResult[]>([]);
+  const [history, setHistory] = useState<DrillResult[]>([]);
+  const [saveFailed, setSaveFailed] = useState(false);
+  const recorderSessionRef = useRef<GainRecorderSession | null>(null);
+  const setIdRef = useRef("");
+
+  const targets = pickDrillTargets(summaries);
+  const current = items[currentIdx];
+  const currentResult = current ? results.find(r => r.drillId === current.id) : undefined;
+
+  useEffect(() => {
+    fetchDrillResults(user.context.individualSheetId!, user.accessToken).then(setHistory);
+    return () => { recorderSessionRef.current?.release(); };
+  }, [user.context.individualSheetId, user.accessToken]);
+
+  const startDrills = async () => {
+    setPhase('GENERATING');
+    try {
+      const generated = await generateValidatedJson<any[]>(getAiInstance(), {
+        model: "gemini-3-flash-preview",
+        contents: buildDrillPrompt(targets)
+      }, data => validateAiJsonArray(data, DRILL_ITEM_SCHEMA, DRILL_SET_SIZE));
+      setIdRef.current = `DRILL_${Date.now()}_${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
+      setItems(parseDrillItems(generated, setIdRef.current));
+      setResults([]);
+      setCurrentIdx(0);
+      setTextAnswer("");
+      setSaveFailed(false);
+      setPhase('IN_PROGRESS');
+    } catch (e) {
+      console.error("Drill generation fail", e);
+      alert("드릴 생성 실패");
+      setPhase('READY');
+    }
+  };
+
+  const recordResult = (item: DrillItem, userAnswer: string, correct: boolean, feedback: string) => {
+    setResults(prev => [...prev, {
+      drillId: item.id,
+      setId: setIdRef.current,
+      date: new Date().toLocaleString(),
+      type: item.type,
+      category: item.category,
+      prompt: item.prompt,
+      answer: item.answer,
+      userAnswer,
+      correct,
+      feedback
+    }]);
+  };
+
+  const submitText = async () => {
+    const answer = textAnswer.trim();
+    if (!current || !answer) return;
+    if (current.type === 'FILL_BLANK') {
+      const correct = isFillBlankCorrect(answer, current.answer);
+      recordResult(current, answer, correct, correct ? "정답입니다." : `정답: ${current.answer.split('/')[0]}`);
+      return;
+    }
+    setIsGrading(true);
+    try {
+      const data = await generateValidatedJson<any>(getAiInstance(), {
+        model: "gemini-3-flash-preview",
+        contents: buildTransformGradingPrompt(current, answer)
+      }, DRILL_GRADE_SCHEMA);
+      recordResult(current, answer, parseDrillCorrect(data.correct), cleanAiText(data.feedback));
+    } catch (e) {
+      console.error("Drill grading fail", e);
+      alert("채점 실패. 다시 시도해주세요.");
+    } finally { setIsGrading(false); }
+  };
+
+  const gradeSpeech = async (item: DrillItem, blob: Blob) => {
+    setIsGrading(true);
+    // 무음 녹음은 채점하지 않음
+    if (await isNearSilentRecording(blob, SHORT_CLIP_MIN_VOICED_SEC)) {
+      alert(SILENT_RECORDING_MESSAGE);
+      setIsGrading(false);
+      return;
+    }
+    try {
+      const data = await generateValidatedJson<any>(getAiInstance(), {
+        model: "gemini-3-flash-preview",
+        contents: {
+          parts: [
+            { inlineData: { data: await blobToBase64(blob), mimeType: blob.type } },
+            { text: buildSpeakGradingPrompt(item) }
+          ]
+        }
+      }, DRILL_GRADE_SCHEMA);
+      recordResult(item, cleanAiText(data.transcript || ""), parseDrillCorrect(data.correct), cleanAiText(data.feedback));
+    } catch (e) {
+      console.error("Drill grading fail", e);
+      alert("채점 실패. 다시 녹음해주세요.");
+    } finally { setIsGrading(false); }
+  };
+
+  const startRecording = async () => {
+    if (!current) return;
+    const item = current;
+    try {
+      const session = await openGainRecorder();
+      const chunks: Blob[] = [];
+      session.recorder.ondataavailable = (e) => chunks.push(e.data);
+      session.recorder.onstop = () => {
+        session.release();
+        recorderSessionRef.current = null;
+        setRecordingAnalyser(null);
+        gradeSpeech(item, new Blob(chunks, { type: 'audio/webm' }));
+      };
+      session.recorder.start();
+      recorderSessionRef.current = session;
+      setRecordingAnalyser(session.analyser);
+      setIsRecording(true);
+    } catch (e) { alert("마이크 권한 필요"); }
+  };
+
+  const stopRecording = () => {
+    setIsRecording(false);
+    recorderSessionRef.current?.recorder.stop();
+  };
+
+  const goNext = async () => {
+    setTextAnswer("");
+    if (currentIdx + 1 < items.length) {
+      setCurrentIdx(currentIdx + 1);
+      return;
+    }
+    setPhase('RESULT');
+    const ok = await saveDrillResults(user.context.individualSheetId!, results, user.accessToken);
+    setSaveFailed(!ok);
+    if (ok) setHistory(prev => [...prev, ...results]);
+  };
+
+  const historySummary = summarizeDrillResults(history);
+  const score = results.filter(r => r.correct).length;
+
+  return (
+    <div className="flex flex-col h-full animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-black italic tracking-tighter uppercase">Mistake Drills</h2>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">반복 실수 맞춤 드릴</p>
+        </div>
+        <button onClick={onExit} disabled={isRecording || isGrading} className="px-4 py-2 bg-slate-100 rounded-full text-[10px] font-black text-slate-500 hover:bg-slate-200 transition-colors disabled:opacity-40">돌아가기</button>
+      </div>
+
+      {phase === 'READY' && (
+        <div className="space-y-6">
+          <div className="p-6 bg-white border border-slate-100 rounded-2xl shadow-sm">
+            <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">이번 드릴 집중 유형</h4>
+            <div className="flex flex-wrap gap-2 mb-5">
+              {targets.map(t => (
+                <span key={t.category} className="text-[11px] font-black px-3 py-1 rounded-full bg-amber-100 text-amber-700">{GRAMMAR_ERROR_CATEGORIES[t.category]} · {t.count}회</span>
+              ))}
+            </div>
+            <p className="text-xs font-bold text-slate-500 mb-5">빈칸 채우기 · 문장 고쳐 쓰기 · 소리 내어 말하기 {DRILL_SET_SIZE}문항이 출제됩니다.</p>
+            <button onClick={startDrills} disabled={targets.length === 0} className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black text-sm shadow-lg hover:bg-blue-700 transition-all disabled:opacity-40">드릴 시작</button>
+          </div>
+          {historySummary.length > 0 && (
+            <div className="p-6 bg-white border border-slate-100 rounded-2xl shadow-sm">
+              <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-3">지난 드릴 정답률</h4>
+              <div className="space-y-2">
+                {historySummary.map(s => (
+                  <div key={s.category} className="flex items-center space-x-3">
+                    <span className="w-24 text-[11px] font-black text-slate-600">{GRAMMAR_ERROR_CATEGORIES[s.category]}</span>
+                    <div className="flex-grow h-1.5 bg-slate-100 rounded-full overflow-hidden">
+                      <div className="h-full bg-green-500" style={{ width: `${(s.correct / s.attempts) * 100}%` }}></div>
+                    </div>
+                    <span className="text-[10px] font-black text-slate-400 tabular-nums">{s.correct}/{s.attempts}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+
+      {phase === 'GENERATING' && (
+        <div className="flex flex-col items-center justify-center py-20">
+          <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+          <p className="font-black text-slate-400 uppercase tracking-widest text-[10px]">Ava가 드릴을 만드는 중...</p>
+        </div>
+      )}
+
+      {phase === 'IN_PROGRESS' && current && (
+        <div className="p-6 bg-white border border-slate-100 rounded-2xl shadow-sm lg:p-8">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex space-x-1">
+              <span className="text-[9px] font-black px-2 py-0.5 rounded-full bg-slate-900 text-white">{DRILL_TYPE_LABELS[current.type]}</span>
+              <span className="text-[9px] font-black px-2 py-0.5 rounded-full bg-amber-100 text-amber-700">{GRAMMAR_ERROR_CATEGORIES[current.category]}</span>
+            </div>
+            <span className="text-[10px] font-black text-slate-400 tabular-nums">{currentIdx + 1} / {items.length}</span>
+          </div>
+          <p className="text-xs font-bold text-slate-500 mb-2">{current.instruction}</p>
+          <p className="text-lg font-black text-slate-800 leading-relaxed mb-6">{current.prompt}</p>
+
+          {!currentResult && (current.type === 'SPEAK' ? (
+            <>
+              <button
+                onClick={isRecording ? stopRecording : startRecording}
+                disabled={isGrading}
+                className={`w-full py-4 rounded-2xl font-black text-sm shadow-lg transition-all disabled:opacity-40 ${isRecording ? 'bg-red-500 text-white animate-pulse' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+              >
+                {isGrading ? '채점 중...' : isRecording ? '녹음 완료' : '녹음 시작'}
+              </button>
+              {isRecording && <div className="mt-3 flex justify-center"><LevelMeter analyser={recordingAnalyser} /></div>}
+            </>
+          ) : (
+            <div className="flex space-x-2">
+              <input
+                value={textAnswer}
+                onChange={(e) => setTextAnswer(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter' && !isGrading) submitText(); }}
+                placeholder={current.type === 'FILL_BLANK' ? '빈칸에 들어갈 말' : '고친 문장을 입력하세요'}
+                className="flex-grow px-4 py-3 bg-slate-50 border border-slate-200 rounded-xl text-sm font-bold outline-none focus:border-blue-500"
+              />
+              <button onClick={submitText} disabled={isGrading || !textAnswer.trim()} className="px-6 py-3 bg-blue-600 text-white rounded-xl font-black text-xs hover:bg-blue-700 transition-all disabled:opacity-40">
+                {isGrading ? '채점 중...' : '제출'}
+              </button>
+            </div>
+          ))}
+
+          {currentResult && (
+            <div className={`p-4 rounded-xl mb-4 ${currentResult.correct ? 'bg-green-50' : 'bg-red-50'}`}>
+              <p className={`text-sm font-black mb-1 ${currentResult.correct ? 'text-green-700' : 'text-red-500'}`}>{currentResult.correct ? '정답' : '오답'}</p>
+              {currentResult.userAnswer && <p className="text-xs font-bold text-slate-600 mb-1">내 답: {currentResult.userAnswer}</p>}
+              <p className="text-xs font-bold text-slate-600 mb-1">정답: {current.answer}</p>
+              {currentResult.feedback && <p className="text-xs font-medium text-slate-500">{currentResult.feedback}</p>}
+            </div>
+          )}
+          {currentResult && (
+            <button onClick={goNext} className="w-full py-3 bg-slate-900 text-white rounded-2xl font-black text-xs hover:bg-black transition-all">
+              {currentIdx + 1 < items.length ? '다음 문항' : '결과 보기'}
+            </button>
+          )}
+        </div>
+      )}
+
+      {phase === 'RESULT' && (
+        <div className="p-6 bg-white border border-slate-100 rounded-2xl shadow-sm lg:p-8">
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-2">Drill Result</p>
+          <p className="text-4xl font-black text-slate-800 mb-1 tabular-nums">{score} / {results.length}</p>
+          <p className={`text-[10px] font-bold mb-6 ${saveFailed ? 'text-red-500' : 'text-slate-400'}`}>{saveFailed ? 'Drill_Log 저장 실패' : 'Drill_Log에 저장되었습니다.'}</p>
+          <div className="space-y-2 mb-6">
+            {results.map(r => (
+              <div key={r.drillId} className="flex items-start space-x-2 p-3 bg-slate-50 rounded-xl">
+                <span className={`shrink-0 text-[9px] font-black px-2 py-0.5 rounded-full ${r.correct ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-500'}`}>{r.correct ? 'O' : 'X'}</span>
+                <div>
+                  <p className="text-xs font-bold text-slate-700">{r.prompt}</p>
+                  <p className="text-[10px] font-bold text-slate-400">{DRILL_TYPE_LABELS[r.type]} · {GRAMMAR_ERROR_CATEGORIES[r.category]} · 정답: {r.answer}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <button onClick={startDrills} className="flex-1 py-3 bg-blue-600 text-white rounded-2xl font-black text-xs hover:bg-blue-700 transition-all">새 드릴</button>
+            <button onClick={onExit} className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl font-black text-xs hover:bg-slate-200 transition-all">돌아가기</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DrillPractice;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FluencyMetrics } from '../types';
+import { FLUENCY_METRIC_LABELS, PAUSE_THRESHOLD_MS } from '../services/fluency';
+
+interface FluencyPanelProps {
+  metrics: FluencyMetrics;
+}
+
+const PRIMARY_KEYS: (keyof FluencyMetrics)[] = ['wpm', 'longestPauseSec', 'fillerCount', 'selfCorrectionCount'];
+const SECONDARY_KEYS: (keyof FluencyMetrics)[] = ['speakingSec', 'silenceSec', 'pauseCount', 'sentenceCount', 'wordCount'];
+
+const FluencyPanel: React.FC<FluencyPanelProps> = ({ metrics }) => {
+  const totalSec = metrics.speakingSec + metrics.silenceSec;
+  const speakingRatio = totalSec > 0 ? metrics.speakingSec / totalSec : 0;
+
+  return (
+    <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm lg:p-7 print:border-slate-300 print:p-4 break-inside-avoid">
+      <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-4 print:mb-2 print:text-[8px]">Fluency Metrics</h4>
+      <div className="grid grid-cols-2 gap-3 mb-4 lg:grid-cols-4 print:grid-cols-4 print:gap-2">
+        {PRIMARY_KEYS.map(key => (
+          <div key={key} className="p-3 bg-slate-50 rounded-xl text-center print:p-2">
+            <p className="text-xl font-black text-slate-800 tabular-nums print:text-sm">{metrics[key]}</p>
+            <p className="text-[9px] font-bold text-slate-400">{FLUENCY_METRIC_LABELS[key]}</p>
+          </div>
+        ))}
+      </div>
+      <div className="mb-2">
+        <div className="flex justify-between text-[9px] font-bold text-slate-400 mb-1">
+          <span>발화 {Math.round(speakingRatio * 100)}%</span>
+          <span>무음 {Math.round((1 - speakingRatio) * 100)}%</span>
+        </div>
+        <div className="w-full h-1.5 bg-slate-200 rounded-full overflow-hidden">
+          <div className="h-full bg-blue-600" style={{ width: `${speakingRatio * 100}%` }}></div>
+        </div>
+      </div>
+      <p className="text-[10px] font-bold text-slate-500 leading-relaxed">
+        {SECONDARY_KEYS.map(key => `${FLUENCY_METRIC_LABELS[key]} ${metrics[key]}`).join(' · ')}
+        <span className="text-slate-300"> (멈춤: {PAUSE_THRESHOLD_MS / 1000}초 이상 무음)</span>
+      </p>
+    </div>
+  );
+};
+
+export default FluencyPanel;
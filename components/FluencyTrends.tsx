@@ -0,0 +1,109 @@
+import React, { useState, useEffect } from 'react';
+import { FullUser, StudyLogEntry, FluencyMetrics } from '../types';
+import { fetchStudyLogs } from '../services/api';
+import { FLUENCY_METRIC_LABELS } from '../services/fluency';
+
+interface FluencyTrendsProps {
+  user: FullUser;
+  onExit: () => void;
+}
+
+interface TrendSeries {
+  key: keyof FluencyMetrics | 'fillerPerMin';
+  label: string;
+  color: string;
+  higherIsBetter: boolean;
+  value: (m: FluencyMetrics) => number;
+}
+
+const SERIES: TrendSeries[] = [
+  { key: 'wpm', label: FLUENCY_METRIC_LABELS.wpm, color: '#2563eb', higherIsBetter: true, value: m => m.wpm },
+  { key: 'fillerPerMin', label: '분당 군말', color: '#f59e0b', higherIsBetter: false, value: m => { const min = (m.speakingSec + m.silenceSec) / 60; return min > 0 ? Math.round((m.fillerCount / min) * 10) / 10 : 0; } },
+  { key: 'longestPauseSec', label: FLUENCY_METRIC_LABELS.longestPauseSec, color: '#ef4444', higherIsBetter: false, value: m => m.longestPauseSec },
+  { key: 'silenceSec', label: '무음 비율(%)', color: '#64748b', higherIsBetter: false, value: m => { const total = m.speakingSec + m.silenceSec; return total > 0 ? Math.round((m.silenceSec / total) * 100) : 0; } }
+];
+
+const CHART_W = 320;
+const CHART_H = 90;
+
+const TrendChart: React.FC<{ series: TrendSeries, logs: StudyLogEntry[] }> = ({ series, logs }) => {
+  const values = logs.map(l => series.value(l.fluency!));
+  const max = Math.max(...values, 1);
+  const min = Math.min(...values, 0);
+  const range = max - min || 1;
+  const points = values.map((v, i) => {
+    const x = values.length === 1 ? CHART_W / 2 : (i / (values.length - 1)) * CHART_W;
+    const y = CHART_H - ((v - min) / range) * (CHART_H - 10) - 5;
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+  const first = values[0];
+  const latest = values[values.length - 1];
+  const improved = series.higherIsBetter ? latest >= first : latest <= first;
+
+  return (
+    <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm">
+      <div className="flex items-end justify-between mb-3">
+        <span className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{series.label}</span>
+        <div className="text-right">
+          <span className="text-xl font-black text-slate-800 tabular-nums">{latest}</span>
+          {values.length > 1 && <span className={`ml-2 text-[10px] font-black ${improved ? 'text-green-600' : 'text-red-500'}`}>{latest - first >= 0 ? '+' : ''}{Math.round((latest - first) * 10) / 10}</span>}
+        </div>
+      </div>
+      <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-24" preserveAspectRatio="none">
+        <polyline points={points.join(' ')} fill="none" stroke={series.color} strokeWidth="2.5" strokeLinejoin="round" strokeLinecap="round" vectorEffect="non-scaling-stroke" />
+        {points.map((p, i) => {
+          const [x, y] = p.split(',');
+          return <circle key={i} cx={x} cy={y} r="3" fill={series.color}><title>{logs[i].date}: {values[i]}</title></circle>;
+        })}
+      </svg>
+      <div className="flex justify-between mt-1 text-[9px] font-bold text-slate-300">
+        <span>{logs[0].date.split(',')[0]}</span>
+        <span>{logs[logs.length - 1].date.split(',')[0]}</span>
+      </div>
+    </div>
+  );
+};
+
+const FluencyTrends: React.FC<FluencyTrendsProps> = ({ user, onExit }) => {
+  const [logs, setLogs] = useState<StudyLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    // 시트는 학습 순서대로 쌓이므로 그대로 시간순
+    fetchStudyLogs(user.context.individualSheetId!, user.accessToken)
+      .then(all => setLogs(all.filter(l => l.fluency && l.fluency.wordCount > 0)))
+      .finally(() => setIsLoading(false));
+  }, [user.context.individualSheetId, user.accessToken]);
+
+  return (
+    <div className="flex flex-col h-full animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-black italic tracking-tighter uppercase">Fluency Trends</h2>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">답변별 유창성 지표 추이</p>
+        </div>
+        <button onClick={onExit} className="px-4 py-2 bg-slate-100 rounded-full text-[10px] font-black text-slate-500 hover:bg-slate-200 transition-colors">닫기</button>
+      </div>
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center py-20">
+          <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+          <p className="font-black text-slate-400 uppercase tracking-widest text-[10px]">Loading Logs...</p>
+        </div>
+      ) : logs.length === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center opacity-40">
+          <p className="font-black text-slate-500 uppercase tracking-tight">아직 유창성 기록이 없습니다.</p>
+          <p className="text-xs font-bold mt-1">답변을 녹음하면 분석 결과가 자동으로 쌓입니다.</p>
+        </div>
+      ) : (
+        <>
+          <p className="mb-4 text-[11px] font-bold text-slate-400">총 {logs.length}개 답변 기준</p>
+          <div className="grid gap-4 md:grid-cols-2">
+            {SERIES.map(series => <TrendChart key={series.key} series={series} logs={logs} />)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FluencyTrends;
@@ -0,0 +1,69 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { readInputLevel, InputLevelWarning, INPUT_LEVEL_WARNINGS, CLIPPING_PEAK, TOO_QUIET_RMS, TOO_QUIET_WARN_MS } from '../services/inputLevel';
+
+interface LevelMeterProps {
+  analyser: AnalyserNode | null;
+  isPaused?: boolean;
+  onLevel?: (peak: number) => void;   // 보정 단계에서 최고치 수집용
+}
+
+// 클리핑 경고는 마지막 발생 후 잠시 유지
+const CLIPPING_HOLD_MS = 1500;
+
+const LevelMeter: React.FC<LevelMeterProps> = ({ analyser, isPaused, onLevel }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [level, setLevel] = useState(0);
+  const [warning, setWarning] = useState<InputLevelWarning | null>(null);
+  const onLevelRef = useRef(onLevel);
+  onLevelRef.current = onLevel;
+
+  useEffect(() => {
+    if (!analyser || isPaused) return;
+    const samples = new Float32Array(analyser.fftSize);
+    let frame = 0;
+    let lastClipAt = 0;
+    let quietSince = performance.now();
+    const draw = () => {
+      const { rms, peak } = readInputLevel(analyser, samples);
+      const now = performance.now();
+      if (peak >= CLIPPING_PEAK) lastClipAt = now;
+      if (rms >= TOO_QUIET_RMS) quietSince = now;
+      const next = now - lastClipAt < CLIPPING_HOLD_MS ? 'CLIPPING' : now - quietSince > TOO_QUIET_WARN_MS ? 'TOO_QUIET' : null;
+      setWarning(prev => prev === next ? prev : next);
+      setLevel(Math.min(1, rms * 4));
+      onLevelRef.current?.(peak);
+
+      const canvas = canvasRef.current;
+      const ctx = canvas?.getContext('2d');
+      if (canvas && ctx) {
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+        ctx.strokeStyle = next === 'CLIPPING' ? '#ef4444' : '#2563eb';
+        ctx.lineWidth = 2;
+        ctx.beginPath();
+        const step = samples.length / canvas.width;
+        for (let x = 0; x < canvas.width; x++) {
+          const y = (1 - samples[Math.floor(x * step)]) * canvas.height / 2;
+          if (x === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+      frame = requestAnimationFrame(draw);
+    };
+    frame = requestAnimationFrame(draw);
+    return () => cancelAnimationFrame(frame);
+  }, [analyser, isPaused]);
+
+  return (
+    <div className="w-full sm:max-w-md hidden-print">
+      <canvas ref={canvasRef} width={400} height={48} className="w-full h-12 bg-slate-50 border border-slate-100 rounded-xl"></canvas>
+      <div className="h-1.5 mt-2 bg-slate-100 rounded-full overflow-hidden">
+        <div className={`h-full transition-[width] duration-75 ${warning === 'CLIPPING' ? 'bg-red-500' : level > 0.6 ? 'bg-amber-400' : 'bg-green-500'}`} style={{ width: `${level * 100}%` }}></div>
+      </div>
+      {warning && !isPaused && (
+        <p className={`mt-2 text-[11px] font-bold text-center ${warning === 'CLIPPING' ? 'text-red-500' : 'text-amber-600'}`}>{INPUT_LEVEL_WARNINGS[warning]}</p>
+      )}
+    </div>
+  );
+};
+
+export default LevelMeter;
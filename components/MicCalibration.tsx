@@ -0,0 +1,79 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { openGainRecorder, GainRecorderSession } from '../services/audio';
+import { CALIBRATION_DURATION_MS, CALIBRATION_SENTENCE, DEFAULT_RECORDING_GAIN, computeCalibratedGain } from '../services/inputLevel';
+import LevelMeter from './LevelMeter';
+
+interface MicCalibrationProps {
+  onComplete: (gain: number) => void;
+  onCancel: () => void;
+}
+
+type CalibrationStep = 'IDLE' | 'MEASURING' | 'DONE';
+
+const MicCalibration: React.FC<MicCalibrationProps> = ({ onComplete, onCancel }) => {
+  const [step, setStep] = useState<CalibrationStep>('IDLE');
+  const [analyser, setAnalyser] = useState<AnalyserNode | null>(null);
+  const [gain, setGain] = useState(DEFAULT_RECORDING_GAIN);
+  const sessionRef = useRef<GainRecorderSession | null>(null);
+  const peaksRef = useRef<number[]>([]);
+  const timerRef = useRef<number | null>(null);
+
+  // 측정 도중 모달이 닫히면 타이머를 멈춰 일부 데이터로 배율을 저장하지 않도록
+  useEffect(() => () => {
+    if (timerRef.current !== null) clearTimeout(timerRef.current);
+    sessionRef.current?.release();
+  }, []);
+
+  const startMeasuring = async () => {
+    try {
+      // 증폭 없이 원래 입력 크기를 측정
+      const session = await openGainRecorder(1);
+      sessionRef.current = session;
+      peaksRef.current = [];
+      setAnalyser(session.analyser);
+      setStep('MEASURING');
+      timerRef.current = window.setTimeout(() => {
+        timerRef.current = null;
+        session.release();
+        sessionRef.current = null;
+        setAnalyser(null);
+        setGain(computeCalibratedGain(peaksRef.current));
+        setStep('DONE');
+      }, CALIBRATION_DURATION_MS);
+    } catch (e) { alert("마이크 권한 필요"); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur flex items-center justify-center p-6 hidden-print">
+      <div className="bg-white p-8 rounded-[32px] shadow-2xl max-w-md w-full">
+        <h2 className="text-xl font-black italic mb-1">마이크 보정</h2>
+        <p className="text-[11px] font-bold text-slate-400 mb-6">평소 답변할 때의 목소리로 아래 문장을 읽어주세요. 녹음 크기를 자동으로 맞춥니다.</p>
+        <p className="p-4 mb-6 bg-blue-50 rounded-2xl text-base font-bold text-slate-800 leading-relaxed">{CALIBRATION_SENTENCE}</p>
+
+        {step === 'MEASURING' && (
+          <div className="mb-6 flex flex-col items-center">
+            <LevelMeter analyser={analyser} onLevel={(peak) => peaksRef.current.push(peak)} />
+          </div>
+        )}
+        {step === 'DONE' && (
+          <p className="mb-6 text-center text-sm font-black text-slate-700">입력 배율 <span className="text-blue-600">x{gain}</span> 로 설정합니다.</p>
+        )}
+
+        <div className="flex space-x-2">
+          <button onClick={onCancel} disabled={step === 'MEASURING'} className="flex-1 py-3 bg-slate-100 text-slate-500 rounded-2xl text-sm font-black hover:bg-slate-200 transition-all disabled:opacity-40">
+            {step === 'DONE' ? '취소' : '건너뛰기'}
+          </button>
+          {step === 'DONE' ? (
+            <button onClick={() => onComplete(gain)} className="flex-1 py-3 bg-blue-600 text-white rounded-2xl text-sm font-black hover:bg-blue-700 transition-all">완료</button>
+          ) : (
+            <button onClick={startMeasuring} disabled={step === 'MEASURING'} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl text-sm font-black hover:bg-black transition-all disabled:opacity-60">
+              {step === 'MEASURING' ? '측정 중...' : '읽기 시작'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default MicCalibration;
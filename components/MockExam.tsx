@@ -0,0 +1,447 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GoogleGenAI } from "@google/genai";
+import { FullUser, UnitProgress, QuestionDbEntry, MockExamQuestion, MockExamResult, MockExamQuestionResult, StudyLogEntry } from '../types';
+import { uploadAudioToDrive, saveStudyLogs } from '../services/api';
+import { blobToBase64, openGainRecorder, GainRecorderSession } from '../services/audio';
+import { cleanAiText, generateValidatedJson, acceptWithoutField, validateAiJsonArray, AiSchema, QUESTION_SCHEMA } from '../services/ai';
+import { parseGrade, GRADE_PROMPT_LIST } from '../services/grade';
+import { buildMockExamBlueprint, buildMockExamPrompt, MOCK_EXAM_QUESTION_COUNT, MOCK_EXAM_SLOT_LABELS } from '../services/mockExam';
+import { MOCK_EXAM_TIME_LIMIT_MS, AnswerClock, formatClock, loadAnswerTargetSec, startAnswerClock, readAnswerClockMs, buildDurationContext } from '../services/answerTimer';
+import { computeFluencyMetrics } from '../services/fluency';
+import { GRAMMAR_CORRECTIONS_INSTRUCTIONS, GRAMMAR_CORRECTIONS_SCHEMA, parseGrammarCorrections } from '../services/grammar';
+import { retryWithBackoff, MAX_STEP_ATTEMPTS } from '../services/analysisJobs';
+import { isNearSilentRecording, SILENT_RECORDING_MESSAGE } from '../services/inputLevel';
+import AnswerTimer from './AnswerTimer';
+import LevelMeter from './LevelMeter';
+
+type ExamPhase = 'READY' | 'GENERATING' | 'IN_PROGRESS' | 'GRADING' | 'GRADE_FAILED' | 'RESULT';
+
+const ANSWER_GRADE_SCHEMA: AiSchema = {
+  transcript: { type: 'string' },
+  level: { type: 'string', validate: (v) => !!parseGrade(v) },
+  feedback: { type: 'string' },
+  corrections: { type: 'array', optional: true }
+};
+
+const SUMMARY_SCHEMA: AiSchema = {
+  overallLevel: { type: 'string', validate: (v) => !!parseGrade(v) },
+  summary: { type: 'string' }
+};
+
+interface MockExamProps {
+  user: FullUser;
+  units: UnitProgress[];
+  questionDb: QuestionDbEntry[];
+  getAiInstance: () => GoogleGenAI;
+  onExit: () => void;
+}
+
+const MockExam: React.FC<MockExamProps> = ({ user, units, questionDb, getAiInstance, onExit }) => {
+  const [phase, setPhase] = useState<ExamPhase>('READY');
+  const [questions, setQuestions] = useState<MockExamQuestion[]>([]);
+  const [currentIdx, setCurrentIdx] = useState(0);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recordingAnalyser, setRecordingAnalyser] = useState<AnalyserNode | null>(null);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const [gradingStep, setGradingStep] = useState("");
+  const [result, setResult] = useState<MockExamResult | null>(null);
+  const [failedNumbers, setFailedNumbers] = useState<number[]>([]);
+  const [answerTargetSec] = useState(loadAnswerTargetSec);
+
+  const answersRef = useRef<Blob[]>([]);
+  const durationsRef = useRef<number[]>([]);
+  const uploadedLinksRef = useRef<string[]>([]);
+  const questionResultsRef = useRef<(MockExamQuestionResult | undefined)[]>([]);
+  const answerClockRef = useRef<AnswerClock | null>(null);
+  const timeUpRef = useRef(false);
+  // 녹음 종료 후 무음 검사 중에 시간이 끝나면 검사가 끝난 뒤 onstop에서 채점
+  const isCheckingAnswerRef = useRef(false);
+  const recorderSessionRef = useRef<GainRecorderSession | null>(null);
+  const examIdRef = useRef("");
+
+  useEffect(() => {
+    if (phase !== 'IN_PROGRESS') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  // 40분 시험 시간이 끝나면 진행 중인 답변을 마감하고 답변한 문항까지만 채점
+  useEffect(() => {
+    if (phase !== 'IN_PROGRESS' || !startedAt || timeUpRef.current) return;
+    if (now - startedAt < MOCK_EXAM_TIME_LIMIT_MS) return;
+    timeUpRef.current = true;
+    if (isRecording) finishAnswer();
+    else if (!isCheckingAnswerRef.current) gradeExam();
+  }, [now]);
+
+  useEffect(() => {
+    return () => {
+      window.speechSynthesis.cancel();
+      recorderSessionRef.current?.release();
+    };
+  }, []);
+
+  const speakQuestion = (text: string) => {
+    window.speechSynthesis.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    utterance.lang = 'en-US';
+    utterance.rate = 0.9;
+    window.speechSynthesis.speak(utterance);
+  };
+
+  useEffect(() => {
+    if (phase === 'IN_PROGRESS' && questions[currentIdx]) speakQuestion(questions[currentIdx].question);
+  }, [phase, currentIdx, questions]);
+
+  const startExam = async () => {
+    setPhase('GENERATING');
+    try {
+      const slots = buildMockExamBlueprint(questionDb, units, user.context.survey);
+      const ai = getAiInstance();
+      const generated = await generateValidatedJson<any[]>(ai, {
+        model: "gemini-3-flash-preview",
+        contents: buildMockExamPrompt(slots, user.context.survey)
+      }, data => validateAiJsonArray(data, QUESTION_SCHEMA, MOCK_EXAM_QUESTION_COUNT));
+      const examQuestions: MockExamQuestion[] = slots.map(slot => {
+        const g = generated.find(q => Number(q.number) === slot.number) || generated[slot.number - 1] || {};
+        return {
+          number: slot.number,
+          kind: slot.kind,
+          fullId: slot.fullId,
+          unit: slot.topic,
+          type: g.type || MOCK_EXAM_SLOT_LABELS[slot.kind],
+          question: cleanAiText(g.question || ""),
+          description: g.description || slot.role
+        };
+      });
+      if (examQuestions.some(q => !q.question)) throw new Error("Incomplete mock exam");
+
+      examIdRef.current = `EXAM_${Date.now()}_${Math.random().toString(36).substring(2, 7).toUpperCase()}`;
+      answersRef.current = [];
+      durationsRef.current = [];
+      uploadedLinksRef.current = [];
+      questionResultsRef.current = [];
+      timeUpRef.current = false;
+      setQuestions(examQuestions);
+      setCurrentIdx(0);
+      setStartedAt(Date.now());
+      setNow(Date.now());
+      setPhase('IN_PROGRESS');
+    } catch (e) {
+      console.error("Mock exam generation fail", e);
+      alert("모의고사 문항 생성 실패");
+      setPhase('READY');
+    }
+  };
+
+  const startAnswer = async () => {
+    try {
+      window.speechSynthesis.cancel();
+      const session = await openGainRecorder();
+      const chunks: Blob[] = [];
+      session.recorder.ondataavailable = (e) => chunks.push(e.data);
+      session.recorder.onstop = async () => {
+        session.release();
+        recorderSessionRef.current = null;
+        setRecordingAnalyser(null);
+        const blob = new Blob(chunks, { type: 'audio/webm' });
+        const durationSec = Math.round(readAnswerClockMs(answerClockRef.current) / 1000);
+        answerClockRef.current = null;
+        // 무음 답변은 업로드/채점하지 않음: 시간이 남아 있으면 같은 문항을 다시 녹음
+        isCheckingAnswerRef.current = true;
+        const isSilent = await isNearSilentRecording(blob);
+        isCheckingAnswerRef.current = false;
+        if (isSilent) {
+          if (!timeUpRef.current) {
+            alert(SILENT_RECORDING_MESSAGE);
+            return;
+          }
+        } else {
+          answersRef.current[currentIdx] = blob;
+          durationsRef.current[currentIdx] = durationSec;
+        }
+        if (currentIdx + 1 < questions.length && !timeUpRef.current) {
+          setCurrentIdx(currentIdx + 1);
+        } else {
+          gradeExam();
+        }
+      };
+      session.recorder.start();
+      answerClockRef.current = startAnswerClock();
+      recorderSessionRef.current = session;
+      setRecordingAnalyser(session.analyser);
+      setIsRecording(true);
+    } catch (e) { alert("마이크 권한 필요"); }
+  };
+
+  const finishAnswer = () => {
+    setIsRecording(false);
+    recorderSessionRef.current?.recorder.stop();
+  };
+
+  // 한 문항 업로드 + 채점 (업로드된 링크는 보관해 다시 채점할 때 중복 업로드하지 않음)
+  const gradeAnswer = async (q: MockExamQuestion, blob: Blob, durationSec: number): Promise<MockExamQuestionResult> => {
+    const idx = q.number - 1;
+    const suffix = String(q.number).padStart(2, '0');
+    if (!uploadedLinksRef.current[idx]) {
+      const link = await uploadAudioToDrive(blob, `USER_RAW_${examIdRef.current}_Q${suffix}.webm`, user.context.individualFolderId!, user.accessToken);
+      if (!link) throw new Error("Drive upload failed");
+      uploadedLinksRef.current[idx] = link;
+    }
+    const data = await generateValidatedJson<any>(getAiInstance(), {
+      model: "gemini-3-flash-preview",
+      contents: {
+        parts: [
+          { inlineData: { data: await blobToBase64(blob), mimeType: blob.type } },
+          { text: `You are a professional OPIc grader. This is question ${q.number} of a ${MOCK_EXAM_QUESTION_COUNT}-question mock test (${MOCK_EXAM_SLOT_LABELS[q.kind]}).
+Question: "${q.question}"
+1. transcript: Exact verbatim transcription of the user's speech, keeping filler words, repetitions and self-corrections.
+2. level: Objective level for this answer, exactly one of (${GRADE_PROMPT_LIST}).
+3. feedback: Short constructive advice in KOREAN (2-3 sentences). ${buildDurationContext(durationSec, answerTargetSec)}
+4. ${GRAMMAR_CORRECTIONS_INSTRUCTIONS}
+Output as JSON: {"transcript":string,"level":string,"feedback":string,${GRAMMAR_CORRECTIONS_SCHEMA}}` }
+        ]
+      }
+    }, ANSWER_GRADE_SCHEMA, { fallback: acceptWithoutField(ANSWER_GRADE_SCHEMA, 'level') });
+    const transcript = cleanAiText(data.transcript);
+    return {
+      number: q.number,
+      transcript,
+      level: parseGrade(data.level) || "-",
+      feedback: cleanAiText(data.feedback),
+      rawAudioLink: uploadedLinksRef.current[idx],
+      durationSec,
+      fluency: await computeFluencyMetrics(blob, transcript, durationSec),
+      grammarCorrections: parseGrammarCorrections(data.corrections)
+    };
+  };
+
+  // 문항별로 재시도하며 채점하고, 끝내 실패한 문항이 있으면 녹음을 보관한 채 다시 채점할 수 있게 함
+  const gradeExam = async () => {
+    setPhase('GRADING');
+    setFailedNumbers([]);
+    const examId = examIdRef.current;
+    const failed: number[] = [];
+
+    for (const q of questions) {
+      const idx = q.number - 1;
+      if (questionResultsRef.current[idx]) continue;
+      const blob = answersRef.current[idx];
+      if (!blob) {
+        questionResultsRef.current[idx] = { number: q.number, transcript: "", level: "-", feedback: "시험 시간 종료로 답변하지 못한 문항입니다.", rawAudioLink: "" };
+        continue;
+      }
+      setGradingStep(`${q.number}/${questions.length} 답변 업로드 및 채점 중...`);
+      try {
+        questionResultsRef.current[idx] = await retryWithBackoff(() => gradeAnswer(q, blob, durationsRef.current[idx]), (failedAttempts, e) => {
+          console.error(`Mock exam Q${q.number} grading fail (${failedAttempts}/${MAX_STEP_ATTEMPTS})`, e);
+        });
+      } catch (e) {
+        console.error(`Mock exam Q${q.number} grading gave up`, e);
+        failed.push(q.number);
+      }
+    }
+    if (failed.length > 0) {
+      setFailedNumbers(failed);
+      setPhase('GRADE_FAILED');
+      return;
+    }
+
+    try {
+      const questionResults = questions.map(q => questionResultsRef.current[q.number - 1]!);
+      const practiceTime = new Date().toLocaleString();
+      setGradingStep("Ava가 종합 등급을 산출 중입니다...");
+      const overview = questions.map((q, i) =>
+        `Q${q.number} [${MOCK_EXAM_SLOT_LABELS[q.kind]}] ${q.question}\nLevel: ${questionResults[i].level}\nAnswer: ${questionResults[i].transcript || "(not answered - time ran out)"}`
+      ).join('\n\n');
+      const summary = await retryWithBackoff(() => generateValidatedJson<any>(getAiInstance(), {
+        model: "gemini-3-flash-preview",
+        contents: `You are a professional OPIc grader. Based on the full ${MOCK_EXAM_QUESTION_COUNT}-question mock test below, decide ONE overall OPIc level, exactly one of (${GRADE_PROMPT_LIST}), as the real exam would, and write an overall summary in KOREAN covering strengths, weaknesses and what to practice next.
+
+${overview}
+
+Output as JSON: {"overallLevel":string,"summary":string}`
+      }, SUMMARY_SCHEMA, { fallback: acceptWithoutField(SUMMARY_SCHEMA, 'overallLevel') }));
+
+      const examResult: MockExamResult = {
+        examId,
+        date: practiceTime,
+        overallLevel: parseGrade(summary.overallLevel) || "-",
+        summary: cleanAiText(summary.summary),
+        questions: questionResults
+      };
+      setGradingStep("학습 기록에 저장 중입니다...");
+      const logs: StudyLogEntry[] = [
+        {
+          sessionId: examId,
+          date: practiceTime,
+          unit: "[MOCK] 실전 모의고사",
+          type: "Mock Exam",
+          question: `${MOCK_EXAM_QUESTION_COUNT}문항 실전 모의고사`,
+          keywords: "",
+          rawAnswer: "",
+          rawAudioLink: "",
+          grade: examResult.overallLevel,
+          correction: "",
+          translatedAnswer: "",
+          feedback: examResult.summary,
+          audioLink: "",
+          examId,
+          answerDurationSec: durationsRef.current.reduce((sum, sec) => sum + (sec || 0), 0)
+        },
+        ...questions.map((q, i) => {
+          const unit = units.find(u => u.fullId === q.fullId);
+          return {
+            sessionId: `${examId}_Q${String(q.number).padStart(2, '0')}`,
+            date: practiceTime,
+            unit: unit ? `[${unit.fullId}] ${unit.topic} - ${unit.essence}` : `[MOCK] Q${q.number} ${MOCK_EXAM_SLOT_LABELS[q.kind]}`,
+            type: q.type,
+            question: q.question,
+            keywords: "",
+            rawAnswer: questionResults[i].transcript,
+            rawAudioLink: questionResults[i].rawAudioLink,
+            grade: questionResults[i].level,
+            correction: "",
+            translatedAnswer: "",
+            feedback: questionResults[i].feedback,
+            audioLink: "",
+            examId,
+            answerDurationSec: questionResults[i].durationSec,
+            fluency: questionResults[i].fluency,
+            grammarCorrections: questionResults[i].grammarCorrections
+          };
+        })
+      ];
+      await retryWithBackoff(async () => {
+        if (!(await saveStudyLogs(user.context.individualSheetId!, logs, user.accessToken))) throw new Error("Study_Log save failed");
+      });
+
+      setResult(examResult);
+      setPhase('RESULT');
+    } catch (e) {
+      console.error("Mock exam summary fail", e);
+      setPhase('GRADE_FAILED');
+    }
+  };
+
+  if (phase === 'READY') {
+    return (
+      <div className="flex flex-col items-center justify-center h-full py-10 text-center animate-in fade-in duration-500">
+        <div className="bg-slate-900 text-white text-[9px] font-black px-4 py-2 rounded-lg uppercase mb-4 tracking-widest shadow-lg">Mock Test</div>
+        <h2 className="px-2 mb-2 text-3xl font-black leading-tight tracking-tighter lg:text-4xl">실전 모의고사</h2>
+        <p className="text-sm text-slate-500 font-bold mb-8 max-w-md leading-relaxed">
+          자기소개, 선택 주제 콤보, 돌발 주제, 롤플레이(11-13), 비교/이슈(14-15)로 구성된 {MOCK_EXAM_QUESTION_COUNT}문항을 연속으로 답변합니다. 제한 시간은 실제 시험과 같은 40분이며, 문항당 목표 답변 시간은 {formatClock(answerTargetSec * 1000)}입니다. 모든 답변이 끝나면 종합 등급과 문항별 피드백을 제공합니다.
+        </p>
+        <div className="flex flex-col w-full max-w-sm gap-3">
+          <button onClick={startExam} className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black text-lg shadow-xl shadow-blue-100 hover:bg-blue-700 transition-all">모의고사 시작</button>
+          <button onClick={onExit} className="w-full py-3 bg-slate-100 text-slate-600 rounded-2xl font-black text-sm hover:bg-slate-200 transition-all">돌아가기</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'GRADE_FAILED') {
+    return (
+      <div className="flex flex-col items-center justify-center h-full py-10 text-center animate-in fade-in duration-500">
+        <div className="bg-red-500 text-white text-[9px] font-black px-4 py-2 rounded-lg uppercase mb-4 tracking-widest shadow-lg">Grading Incomplete</div>
+        <h2 className="px-2 mb-2 text-2xl font-black leading-tight tracking-tighter lg:text-3xl">채점을 마치지 못했습니다</h2>
+        <p className="text-sm text-slate-500 font-bold mb-8 max-w-md leading-relaxed">
+          {failedNumbers.length > 0 ? `Q${failedNumbers.join(', Q')} 문항의 업로드 또는 채점에 실패했습니다.` : "종합 등급 산출 또는 학습 기록 저장에 실패했습니다."} 녹음한 답변은 그대로 보관되어 있으니 다시 채점해 주세요. 이미 채점된 문항은 다시 채점하지 않습니다.
+        </p>
+        <div className="flex flex-col w-full max-w-sm gap-3">
+          <button onClick={gradeExam} className="w-full py-4 bg-blue-600 text-white rounded-2xl font-black text-lg shadow-xl shadow-blue-100 hover:bg-blue-700 transition-all">다시 채점</button>
+          <button onClick={() => { if (confirm("채점하지 않고 나가면 녹음한 답변이 사라집니다. 나갈까요?")) onExit(); }} className="w-full py-3 bg-slate-100 text-slate-600 rounded-2xl font-black text-sm hover:bg-slate-200 transition-all">돌아가기</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (phase === 'GENERATING' || phase === 'GRADING') {
+    return (
+      <div className="flex flex-col items-center justify-center flex-grow py-16 text-center">
+        <div className="relative mb-6"><div className="w-16 h-16 border-[5px] border-blue-50 rounded-full"></div><div className="absolute inset-0 w-16 h-16 border-[5px] border-blue-600 border-t-transparent rounded-full animate-spin"></div></div>
+        <h3 className="text-lg font-bold lg:text-xl text-slate-800">{phase === 'GENERATING' ? `Ava가 ${MOCK_EXAM_QUESTION_COUNT}문항을 출제 중입니다...` : gradingStep}</h3>
+        <p className="mt-2 text-xs text-slate-400">잠시만 기다려 주세요.</p>
+      </div>
+    );
+  }
+
+  if (phase === 'RESULT' && result) {
+    return (
+      <div className="flex flex-col space-y-5 pb-10 animate-in zoom-in-95 duration-500">
+        <div className="p-6 bg-slate-900 text-white rounded-3xl flex items-center justify-between">
+          <div>
+            <p className="text-[10px] font-black text-blue-300 uppercase tracking-widest mb-1">Mock Test Result | {result.date}</p>
+            <h2 className="text-2xl font-black italic tracking-tighter">Overall Level</h2>
+          </div>
+          <span className="text-4xl font-black italic text-blue-400">{result.overallLevel}</span>
+        </div>
+        <div className="p-5 bg-slate-50 border border-slate-100 rounded-2xl lg:p-7">
+          <h4 className="text-[9px] font-black text-slate-500 uppercase tracking-widest mb-3">Ava's Summary</h4>
+          <p className="text-xs font-medium leading-relaxed text-slate-700 whitespace-pre-wrap lg:text-sm">{result.summary}</p>
+        </div>
+        <div className="grid gap-3">
+          {questions.map((q, i) => (
+            <div key={q.number} className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Q{q.number} · {MOCK_EXAM_SLOT_LABELS[q.kind]}</span>
+                <div className="flex items-center space-x-2">
+                  {!!result.questions[i]?.durationSec && <span className="text-[9px] font-black text-slate-400 tabular-nums">{formatClock(result.questions[i].durationSec! * 1000)}</span>}
+                  <span className="bg-blue-600 text-white text-[8px] font-black px-1.5 py-0.5 rounded uppercase">{result.questions[i]?.level}</span>
+                </div>
+              </div>
+              <p className="mb-2 text-xs font-bold italic text-slate-800">"{q.question}"</p>
+              <p className="mb-2 text-[11px] font-medium italic text-slate-500">"{result.questions[i]?.transcript}"</p>
+              <p className="text-[11px] font-medium text-blue-700">{result.questions[i]?.feedback}</p>
+            </div>
+          ))}
+        </div>
+        <button onClick={onExit} className="w-full py-4 text-sm font-black text-white bg-slate-900 rounded-2xl hover:bg-blue-600 transition-all">완료</button>
+      </div>
+    );
+  }
+
+  const currentQuestion = questions[currentIdx];
+  const remainingExamMs = MOCK_EXAM_TIME_LIMIT_MS - (startedAt ? now - startedAt : 0);
+  return (
+    <div className="flex flex-col h-full space-y-5 lg:space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <span className="bg-slate-900 text-white text-[10px] font-black px-3 py-1 rounded-full">Q{currentQuestion.number} / {questions.length}</span>
+          <span className="text-[10px] font-black text-blue-600 uppercase tracking-widest">{MOCK_EXAM_SLOT_LABELS[currentQuestion.kind]}</span>
+        </div>
+        <div className="text-right">
+          <p className="text-[8px] font-black text-slate-400 uppercase tracking-widest">남은 시험 시간</p>
+          <span className={`text-sm font-black tabular-nums ${remainingExamMs < 5 * 60 * 1000 ? 'text-red-600' : 'text-slate-500'}`}>{formatClock(remainingExamMs)}</span>
+        </div>
+      </div>
+      <div className="w-full bg-slate-100 h-1.5 rounded-full overflow-hidden">
+        <div className="bg-blue-600 h-full transition-all duration-500" style={{ width: `${(currentIdx / questions.length) * 100}%` }}></div>
+      </div>
+      <div className="p-5 border bg-slate-50 rounded-2xl lg:p-8 border-slate-100 flex items-start gap-4">
+        <h2 className="flex-grow text-lg font-bold leading-snug tracking-tight lg:text-xl text-slate-800">"{currentQuestion.question}"</h2>
+        <button onClick={() => speakQuestion(currentQuestion.question)} disabled={isRecording} className="p-3 lg:p-4 rounded-xl shadow-md bg-white text-slate-400 shrink-0 disabled:opacity-40">
+          <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M3 9v6h4l5 5V4L7 9H3zm13.5 3c0-1.77-1.02-3.29-2.5-4.03v8.05c1.48-.73 2.5-2.25 2.5-4.02z"/></svg>
+        </button>
+      </div>
+      <div className="flex flex-col items-center gap-4 py-2 pb-6">
+        {isRecording && <AnswerTimer elapsedMs={readAnswerClockMs(answerClockRef.current)} targetSec={answerTargetSec} />}
+        {isRecording && <LevelMeter analyser={recordingAnalyser} />}
+        {!isRecording ? (
+          <button onClick={startAnswer} className="w-full py-5 text-lg font-black text-white transition-all shadow-2xl sm:max-w-sm bg-red-600 rounded-full flex items-center justify-center space-x-3 active:scale-95">
+            <div className="w-2.5 h-2.5 bg-white rounded-full animate-pulse"></div>
+            <span>답변 녹음 시작</span>
+          </button>
+        ) : (
+          <button onClick={finishAnswer} className="w-full py-5 text-lg font-black text-white transition-all shadow-xl sm:max-w-sm bg-slate-900 rounded-[24px] flex items-center justify-center space-x-2 active:scale-95">
+            <div className="w-2 h-2 bg-red-500 rounded-sm"></div>
+            <span>{currentIdx + 1 < questions.length ? '답변 종료 후 다음 문항' : '답변 종료 및 채점'}</span>
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MockExam;
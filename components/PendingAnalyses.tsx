@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+import { AnalysisJob } from '../types';
+import { ANALYSIS_STEP_LABELS, MAX_STEP_ATTEMPTS } from '../services/analysisJobs';
+
+interface PendingAnalysesProps {
+  jobs: AnalysisJob[];
+  isOnline: boolean;
+  onRetry: (job: AnalysisJob) => void;
+  onDiscard: (job: AnalysisJob) => void;
+}
+
+const PendingAnalyses: React.FC<PendingAnalysesProps> = ({ jobs, isOnline, onRetry, onDiscard }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  if (jobs.length === 0) return null;
+  const failedCount = jobs.filter(j => j.status === 'FAILED').length;
+  const isWorking = isOnline && jobs.some(j => j.status === 'RUNNING');
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[80] w-72 flex flex-col items-end hidden-print">
+      {isOpen && (
+        <div className="w-full mb-2 p-4 bg-white border border-slate-100 rounded-2xl shadow-2xl max-h-80 overflow-y-auto custom-scrollbar space-y-2">
+          {!isOnline && <p className="px-1 text-[10px] font-bold text-amber-600">오프라인 · 인터넷에 연결되면 녹음 순서대로 자동 분석합니다.</p>}
+          {jobs.map(job => (
+            <div key={job.id} className="p-3 bg-slate-50 rounded-xl">
+              <p className="text-[10px] font-bold text-slate-700 truncate">{job.log.question}</p>
+              <p className="text-[9px] font-black text-slate-400 mt-0.5">{new Date(job.createdAt).toLocaleString()}</p>
+              <div className="flex items-center justify-between mt-2">
+                <span className={`text-[9px] font-black ${job.status === 'FAILED' ? 'text-red-500' : 'text-blue-600'}`}>
+                  {ANALYSIS_STEP_LABELS[job.step]} · {job.status === 'FAILED' ? '실패' : job.status === 'RUNNING' ? (job.attempts > 0 ? `재시도 ${job.attempts + 1}/${MAX_STEP_ATTEMPTS}` : '진행 중') : isOnline ? '대기' : '연결 대기'}
+                </span>
+                {job.status !== 'RUNNING' && (
+                  <div className="flex items-center space-x-1">
+                    <button onClick={() => onDiscard(job)} className="px-2 py-0.5 rounded-full text-[9px] font-black text-slate-400 border border-slate-200 hover:text-red-500 hover:border-red-200 transition-all">삭제</button>
+                    <button onClick={() => onRetry(job)} disabled={!isOnline} className="px-2 py-0.5 rounded-full text-[9px] font-black text-white bg-blue-600 hover:bg-blue-700 transition-all disabled:opacity-40">다시 시도</button>
+                  </div>
+                )}
+              </div>
+              {job.status === 'FAILED' && job.lastError && <p className="mt-1 text-[9px] font-medium text-red-400 truncate" title={job.lastError}>{job.lastError}</p>}
+            </div>
+          ))}
+        </div>
+      )}
+      <button onClick={() => setIsOpen(!isOpen)} className={`flex items-center space-x-2 px-4 py-2 rounded-full text-[11px] font-black shadow-lg transition-all ${failedCount > 0 ? 'bg-red-500 text-white' : !isOnline ? 'bg-amber-500 text-white' : 'bg-slate-900 text-white'}`}>
+        {isWorking && <div className="w-3 h-3 border-2 border-white border-t-transparent rounded-full animate-spin"></div>}
+        <span>{isOnline ? '대기 중인 분석' : '오프라인 보관함'} {jobs.length}건{failedCount > 0 ? ` · 실패 ${failedCount}` : ''}</span>
+      </button>
+    </div>
+  );
+};
+
+export default PendingAnalyses;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GoogleGenAI } from "@google/genai";
+import { PronunciationIssue } from '../types';
+import { downloadDriveAudio } from '../services/api';
+import { blobToBase64, openGainRecorder, GainRecorderSession } from '../services/audio';
+import { isNearSilentRecording, SHORT_CLIP_MIN_VOICED_SEC, SILENT_RECORDING_MESSAGE } from '../services/inputLevel';
+import { cleanAiText, generateValidatedJson } from '../services/ai';
+import { formatClock } from '../services/answerTimer';
+import { buildWordCheckPrompt, WORD_CHECK_SCHEMA, SEGMENT_LEAD_SEC, SEGMENT_LENGTH_SEC } from '../services/pronunciation';
+import LevelMeter from './LevelMeter';
+
+interface PronunciationPanelProps {
+  issues: PronunciationIssue[];
+  rawAudioLink?: string;
+  accessToken: string;
+  getAiInstance: () => GoogleGenAI;
+  activeAudioId: string | null;
+  onPlayModel: (word: string, id: string) => void;
+  onStopAudio: () => void;
+}
+
+interface WordCheck {
+  status: 'RECORDING' | 'GRADING' | 'DONE';
+  passed?: boolean;
+  heard?: string;
+  feedback?: string;
+}
+
+const PronunciationPanel: React.FC<PronunciationPanelProps> = ({ issues, rawAudioLink, accessToken, getAiInstance, activeAudioId, onPlayModel, onStopAudio }) => {
+  const [checks, setChecks] = useState<Record<number, WordCheck>>({});
+  const [loadingSegment, setLoadingSegment] = useState<number | null>(null);
+  const [recordingAnalyser, setRecordingAnalyser] = useState<AnalyserNode | null>(null);
+  const recorderSessionRef = useRef<GainRecorderSession | null>(null);
+  const recordingBufferRef = useRef<AudioBuffer | null>(null);
+  const audioCtxRef = useRef<AudioContext | null>(null);
+  const segmentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  // 다른 답변으로 바뀌면 재녹음 결과와 녹음 캐시 초기화
+  useEffect(() => {
+    setChecks({});
+    recordingBufferRef.current = null;
+  }, [rawAudioLink]);
+
+  useEffect(() => () => {
+    recorderSessionRef.current?.release();
+    audioCtxRef.current?.close();
+  }, []);
+
+  const playMySegment = async (idx: number) => {
+    if (!rawAudioLink) return;
+    onStopAudio();
+    try { segmentSourceRef.current?.stop(); } catch (e) {}
+    if (!audioCtxRef.current) audioCtxRef.current = new AudioContext();
+    const ctx = audioCtxRef.current;
+    try {
+      if (!recordingBufferRef.current) {
+        setLoadingSegment(idx);
+        const recording = await downloadDriveAudio(rawAudioLink, accessToken);
+        if (!recording) throw new Error("Recording download failed");
+        recordingBufferRef.current = await ctx.decodeAudioData(recording.slice().buffer);
+      }
+      const source = ctx.createBufferSource();
+      source.buffer = recordingBufferRef.current;
+      source.connect(ctx.destination);
+      segmentSourceRef.current = source;
+      source.start(0, Math.max(0, issues[idx].startSec - SEGMENT_LEAD_SEC), SEGMENT_LENGTH_SEC);
+    } catch (e) {
+      console.error("Segment play fail", e);
+      alert("녹음 재생 실패");
+    } finally { setLoadingSegment(null); }
+  };
+
+  const gradeAttempt = async (idx: number, blob: Blob) => {
+    setChecks(prev => ({ ...prev, [idx]: { status: 'GRADING' } }));
+    // 무음 녹음은 채점하지 않음
+    if (await isNearSilentRecording(blob, SHORT_CLIP_MIN_VOICED_SEC)) {
+      alert(SILENT_RECORDING_MESSAGE);
+      setChecks(prev => { const { [idx]: _, ...rest } = prev; return rest; });
+      return;
+    }
+    try {
+      const data = await generateValidatedJson<any>(getAiInstance(), {
+        model: "gemini-3-flash-preview",
+        contents: {
+          parts: [
+            { inlineData: { data: await blobToBase64(blob), mimeType: blob.type } },
+            { text: buildWordCheckPrompt(issues[idx]) }
+          ]
+        }
+      }, WORD_CHECK_SCHEMA);
+      setChecks(prev => ({ ...prev, [idx]: { status: 'DONE', passed: data.passed === true || data.passed === 'true', heard: cleanAiText(data.heard), feedback: cleanAiText(data.feedback) } }));
+    } catch (e) {
+      console.error("Word check fail", e);
+      setChecks(prev => { const next = { ...prev }; delete next[idx]; return next; });
+      alert("발음 확인 실패. 다시 녹음해주세요.");
+    }
+  };
+
+  const toggleRecording = async (idx: number) => {
+    if (checks[idx]?.status === 'RECORDING') {
+      recorderSessionRef.current?.recorder.stop();
+      return;
+    }
+    if (recorderSessionRef.current) return;
+    onStopAudio();
+    try {
+      const session = await openGainRecorder();
+      const chunks: Blob[] = [];
+      session.recorder.ondataavailable = (e) => chunks.push(e.data);
+      session.recorder.onstop = () => {
+        session.release();
+        recorderSessionRef.current = null;
+        setRecordingAnalyser(null);
+        gradeAttempt(idx, new Blob(chunks, { type: 'audio/webm' }));
+      };
+      session.recorder.start();
+      recorderSessionRef.current = session;
+      setRecordingAnalyser(session.analyser);
+      setChecks(prev => ({ ...prev, [idx]: { status: 'RECORDING' } }));
+    } catch (e) { alert("마이크 권한 필요"); }
+  };
+
+  return (
+    <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm lg:p-7 print:border-slate-300 print:p-4 break-inside-avoid">
+      <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-4 print:mb-2 print:text-[8px]">Pronunciation · 발음 교정 {issues.length}건</h4>
+      <div className="space-y-2 print:space-y-1">
+        {issues.map((issue, i) => {
+          const modelId = `pron-${i}`;
+          const check = checks[i];
+          return (
+            <div key={i} className="p-3 bg-slate-50 rounded-xl print:p-2">
+              <div className="flex flex-wrap items-center gap-2">
+                <button
+                  onClick={() => onPlayModel(issue.word, modelId)}
+                  className={`text-sm font-black rounded-lg px-2 py-0.5 transition-all print:text-[10px] ${activeAudioId === modelId ? 'bg-blue-600 text-white' : 'text-blue-700 hover:bg-blue-100'}`}
+                  title="모범 발음 듣기"
+                >
+                  {issue.word}
+                </button>
+                {issue.heard && <span className="text-[11px] font-bold text-red-400 line-through print:text-[9px]">{issue.heard}</span>}
+                <button
+                  onClick={() => playMySegment(i)}
+                  disabled={!rawAudioLink || loadingSegment !== null}
+                  className="text-[9px] font-black text-slate-400 tabular-nums hover:text-slate-600 disabled:hover:text-slate-400 hidden-print"
+                  title="내 녹음에서 해당 구간 듣기"
+                >
+                  {loadingSegment === i ? '...' : formatClock(issue.startSec * 1000)}
+                </button>
+                <button
+                  onClick={() => toggleRecording(i)}
+                  disabled={check?.status === 'GRADING'}
+                  className={`ml-auto text-[9px] font-black px-2.5 py-1 rounded-full border transition-all hidden-print disabled:opacity-40 ${check?.status === 'RECORDING' ? 'bg-red-500 text-white border-red-500 animate-pulse' : 'bg-white text-slate-500 border-slate-200 hover:border-slate-400'}`}
+                >
+                  {check?.status === 'RECORDING' ? '녹음 완료' : check?.status === 'GRADING' ? '확인 중...' : '다시 말해보기'}
+                </button>
+              </div>
+              {check?.status === 'RECORDING' && <div className="mt-2 flex justify-center"><LevelMeter analyser={recordingAnalyser} /></div>}
+              {issue.tip && <p className="mt-1 text-[11px] font-medium text-slate-500 leading-relaxed print:text-[9px]">{issue.tip}</p>}
+              {check?.status === 'DONE' && (
+                <p className={`mt-1 text-[11px] font-bold hidden-print ${check.passed ? 'text-green-600' : 'text-red-500'}`}>
+                  {check.passed ? 'PASS' : 'FAIL'}{check.heard && ` · "${check.heard}"`}{check.feedback && ` · ${check.feedback}`}
+                </p>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PronunciationPanel;
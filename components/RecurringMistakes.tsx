@@ -0,0 +1,105 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GoogleGenAI } from "@google/genai";
+import { FullUser, StudyLogEntry } from '../types';
+import { fetchStudyLogs } from '../services/api';
+import { aggregateMistakes, findRepeatedPhrases, GRAMMAR_ERROR_CATEGORIES, MistakeSummary, RECENT_SESSION_WINDOW } from '../services/grammar';
+import DrillPractice from './DrillPractice';
+
+interface RecurringMistakesProps {
+  user: FullUser;
+  getAiInstance: () => GoogleGenAI;
+  onExit: () => void;
+}
+
+const EXAMPLE_LIMIT = 5;
+
+const MistakeCard: React.FC<{ summary: MistakeSummary, total: number }> = ({ summary, total }) => {
+  const repeated = findRepeatedPhrases(summary);
+  return (
+    <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm">
+      <div className="flex items-end justify-between mb-2">
+        <span className="text-sm font-black text-slate-800">{GRAMMAR_ERROR_CATEGORIES[summary.category]}</span>
+        <div className="text-right">
+          <span className="text-xl font-black text-slate-800 tabular-nums">{summary.count}</span>
+          <span className="ml-1 text-[10px] font-bold text-slate-400">회 · {summary.sessionCount}개 답변</span>
+        </div>
+      </div>
+      <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden mb-2">
+        <div className="h-full bg-amber-500" style={{ width: `${(summary.count / total) * 100}%` }}></div>
+      </div>
+      <p className="text-[9px] font-bold text-slate-400 mb-3">최근 {RECENT_SESSION_WINDOW}개 답변에서 {summary.recentCount}회</p>
+      {repeated.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-3">
+          {repeated.slice(0, 3).map(p => (
+            <span key={p.original} className="text-[9px] font-black px-2 py-0.5 rounded-full bg-red-50 text-red-500">"{p.original}" ×{p.times}</span>
+          ))}
+        </div>
+      )}
+      <div className="space-y-1.5">
+        {summary.examples.slice(0, EXAMPLE_LIMIT).map((e, i) => (
+          <p key={i} className="text-[11px] font-bold leading-relaxed">
+            <span className="text-red-500 line-through">{e.original}</span>
+            <span className="text-slate-400"> → </span>
+            <span className="text-green-700">{e.corrected}</span>
+            {e.explanation && <span className="font-medium text-slate-500"> · {e.explanation}</span>}
+            <span className="ml-1 text-[9px] text-slate-300">{e.date.split(',')[0]}</span>
+          </p>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const RecurringMistakes: React.FC<RecurringMistakesProps> = ({ user, getAiInstance, onExit }) => {
+  const [logs, setLogs] = useState<StudyLogEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDrilling, setIsDrilling] = useState(false);
+
+  useEffect(() => {
+    fetchStudyLogs(user.context.individualSheetId!, user.accessToken)
+      .then(all => setLogs(all.filter(l => l.grammarCorrections)))
+      .finally(() => setIsLoading(false));
+  }, [user.context.individualSheetId, user.accessToken]);
+
+  const summaries = useMemo(() => aggregateMistakes(logs), [logs]);
+  const total = summaries.reduce((sum, s) => sum + s.count, 0);
+
+  if (isDrilling) {
+    return <DrillPractice user={user} summaries={summaries} getAiInstance={getAiInstance} onExit={() => setIsDrilling(false)} />;
+  }
+
+  return (
+    <div className="flex flex-col h-full animate-in fade-in duration-500">
+      <div className="flex items-center justify-between mb-8">
+        <div>
+          <h2 className="text-3xl font-black italic tracking-tighter uppercase">My Mistakes</h2>
+          <p className="text-slate-400 text-xs font-bold uppercase tracking-widest mt-1">전체 답변에서 반복되는 문법 실수</p>
+        </div>
+        <div className="flex space-x-2">
+          {total > 0 && <button onClick={() => setIsDrilling(true)} className="px-4 py-2 bg-blue-600 rounded-full text-[10px] font-black text-white hover:bg-blue-700 transition-colors">맞춤 드릴</button>}
+          <button onClick={onExit} className="px-4 py-2 bg-slate-100 rounded-full text-[10px] font-black text-slate-500 hover:bg-slate-200 transition-colors">닫기</button>
+        </div>
+      </div>
+      {isLoading ? (
+        <div className="flex flex-col items-center justify-center py-20">
+          <div className="w-12 h-12 border-4 border-blue-600 border-t-transparent rounded-full animate-spin mb-4"></div>
+          <p className="font-black text-slate-400 uppercase tracking-widest text-[10px]">Loading Logs...</p>
+        </div>
+      ) : total === 0 ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center opacity-40">
+          <p className="font-black text-slate-500 uppercase tracking-tight">아직 집계된 실수가 없습니다.</p>
+          <p className="text-xs font-bold mt-1">답변을 채점하면 교정 내역이 유형별로 쌓입니다.</p>
+        </div>
+      ) : (
+        <>
+          <p className="mb-4 text-[11px] font-bold text-slate-400">총 {logs.length}개 답변 · 실수 {total}건 기준</p>
+          <div className="grid gap-4 md:grid-cols-2">
+            {summaries.map(summary => <MistakeCard key={summary.category} summary={summary} total={total} />)}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default RecurringMistakes;
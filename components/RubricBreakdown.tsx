@@ -0,0 +1,37 @@
+import React from 'react';
+import { AnswerRubric } from '../types';
+import { RUBRIC_CRITERIA, RUBRIC_CRITERION_KEYS, RUBRIC_MAX_SCORE } from '../services/rubric';
+
+interface RubricBreakdownProps {
+  rubric: AnswerRubric;
+  level?: string;
+}
+
+const RubricBreakdown: React.FC<RubricBreakdownProps> = ({ rubric, level }) => (
+  <div className="p-5 bg-white border border-slate-100 rounded-2xl shadow-sm lg:p-7 print:border-slate-300 print:p-4 break-inside-avoid">
+    <div className="flex items-center justify-between mb-4 print:mb-2">
+      <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest print:text-[8px]">Score Breakdown</h4>
+      {level && <span className="text-[9px] font-black text-blue-600">{level} 판정 근거</span>}
+    </div>
+    <div className="grid gap-4 lg:grid-cols-2 print:grid-cols-2 print:gap-2">
+      {RUBRIC_CRITERION_KEYS.filter(key => rubric[key]).map(key => {
+        const item = rubric[key]!;
+        return (
+          <div key={key} className="min-w-0">
+            <div className="flex items-center justify-between mb-1">
+              <span className="text-xs font-black text-slate-800 print:text-[10px]">{RUBRIC_CRITERIA[key].label}</span>
+              <span className="text-[10px] font-black text-blue-600 tabular-nums">{item.score}/{RUBRIC_MAX_SCORE}</span>
+            </div>
+            <div className="w-full h-1.5 bg-slate-100 rounded-full overflow-hidden mb-2">
+              <div className={`h-full ${item.score >= 4 ? 'bg-green-500' : item.score >= 3 ? 'bg-blue-500' : 'bg-amber-400'}`} style={{ width: `${(item.score / RUBRIC_MAX_SCORE) * 100}%` }}></div>
+            </div>
+            {item.evidence && <p className="text-[11px] font-medium italic text-slate-500 leading-relaxed print:text-[9px]">"{item.evidence}"</p>}
+            {item.comment && <p className="text-[11px] font-bold text-slate-700 leading-relaxed print:text-[9px]">{item.comment}</p>}
+          </div>
+        );
+      })}
+    </div>
+  </div>
+);
+
+export default RubricBreakdown;
@@ -0,0 +1,154 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { GoogleGenAI } from "@google/genai";
+import { ShadowingProgress } from '../types';
+import { blobToBase64, openGainRecorder, GainRecorderSession } from '../services/audio';
+import { isNearSilentRecording, SHORT_CLIP_MIN_VOICED_SEC, SILENT_RECORDING_MESSAGE } from '../services/inputLevel';
+import { cleanAiText, generateValidatedJson } from '../services/ai';
+import {
+  ShadowingSentence, SHADOWING_PART_LABELS, SHADOWING_PASS_SCORE, SHADOWING_TRANSCRIPT_SCHEMA, SHADOWING_TRANSCRIPT_PROMPT,
+  scoreShadowing, recordShadowingScore, countPassedSentences
+} from '../services/shadowing';
+import LevelMeter from './LevelMeter';
+
+type ShadowingStep = 'IDLE' | 'LISTENING' | 'RECORDING' | 'SCORING';
+
+interface ShadowingPracticeProps {
+  sentences: ShadowingSentence[];
+  progress?: ShadowingProgress;
+  getAiInstance: () => GoogleGenAI;
+  activeAudioId: string | null;
+  onPlaySentence: (idx: number, id: string) => void;
+  onStopAudio: () => void;
+  onSaveProgress: (progress: ShadowingProgress) => void;
+  onExit: () => void;
+}
+
+const scoreColor = (score: number | null | undefined) =>
+  score === null || score === undefined ? 'bg-slate-200' : score >= SHADOWING_PASS_SCORE ? 'bg-green-500' : 'bg-amber-400';
+
+const ShadowingPractice: React.FC<ShadowingPracticeProps> = ({ sentences, progress, getAiInstance, activeAudioId, onPlaySentence, onStopAudio, onSaveProgress, onExit }) => {
+  const firstUnpassed = sentences.findIndex((_, i) => (progress?.scores[i] ?? 0) < SHADOWING_PASS_SCORE);
+  const [currentIdx, setCurrentIdx] = useState(firstUnpassed === -1 ? 0 : firstUnpassed);
+  const [step, setStep] = useState<ShadowingStep>('IDLE');
+  const [lastAttempt, setLastAttempt] = useState<{ transcript: string, score: number } | null>(null);
+  const [recordingAnalyser, setRecordingAnalyser] = useState<AnalyserNode | null>(null);
+  const recorderSessionRef = useRef<GainRecorderSession | null>(null);
+  const prevAudioIdRef = useRef<string | null>(null);
+  const sentence = sentences[currentIdx];
+  const audioId = `shadow-${currentIdx}`;
+
+  useEffect(() => () => { recorderSessionRef.current?.release(); }, []);
+
+  // 문장 재생이 끝나면 바로 따라 말하기 녹음 시작
+  useEffect(() => {
+    if (step === 'LISTENING' && prevAudioIdRef.current === audioId && activeAudioId !== audioId) startRecording();
+    prevAudioIdRef.current = activeAudioId;
+  }, [activeAudioId]);
+
+  const scoreAttempt = async (blob: Blob) => {
+    setStep('SCORING');
+    // 무음 녹음은 채점하지 않음
+    if (await isNearSilentRecording(blob, SHORT_CLIP_MIN_VOICED_SEC)) {
+      alert(SILENT_RECORDING_MESSAGE);
+      setStep('IDLE');
+      return;
+    }
+    try {
+      const data = await generateValidatedJson<{ transcript: string }>(getAiInstance(), {
+        model: "gemini-3-flash-preview",
+        contents: {
+          parts: [
+            { inlineData: { data: await blobToBase64(blob), mimeType: blob.type } },
+            { text: SHADOWING_TRANSCRIPT_PROMPT }
+          ]
+        }
+      }, SHADOWING_TRANSCRIPT_SCHEMA);
+      const transcript = cleanAiText(data.transcript);
+      const score = scoreShadowing(transcript, sentence.text);
+      setLastAttempt({ transcript, score });
+      onSaveProgress(recordShadowingScore(progress, currentIdx, score, sentences.length));
+    } catch (e) {
+      console.error("Shadowing scoring fail", e);
+      alert("채점 실패. 다시 시도해주세요.");
+    } finally { setStep('IDLE'); }
+  };
+
+  const startRecording = async () => {
+    try {
+      const session = await openGainRecorder();
+      const chunks: Blob[] = [];
+      session.recorder.ondataavailable = (e) => chunks.push(e.data);
+      session.recorder.onstop = () => {
+        session.release();
+        recorderSessionRef.current = null;
+        setRecordingAnalyser(null);
+        scoreAttempt(new Blob(chunks, { type: 'audio/webm' }));
+      };
+      session.recorder.start();
+      recorderSessionRef.current = session;
+      setRecordingAnalyser(session.analyser);
+      setStep('RECORDING');
+    } catch (e) {
+      alert("마이크 권한 필요");
+      setStep('IDLE');
+    }
+  };
+
+  const listenAndRepeat = () => {
+    setLastAttempt(null);
+    setStep('LISTENING');
+    onPlaySentence(currentIdx, audioId);
+  };
+
+  const moveTo = (idx: number) => {
+    onStopAudio();
+    setLastAttempt(null);
+    setStep('IDLE');
+    setCurrentIdx(idx);
+  };
+
+  const bestScore = progress?.scores[currentIdx];
+  const isBusy = step !== 'IDLE';
+
+  return (
+    <div className="p-5 bg-white border border-blue-100 rounded-2xl shadow-sm lg:p-7 hidden-print">
+      <div className="flex items-center justify-between mb-4">
+        <h4 className="text-[9px] font-black text-blue-600 uppercase tracking-widest">Shadowing · {countPassedSentences(progress)}/{sentences.length} 통과</h4>
+        <button onClick={() => { onStopAudio(); onExit(); }} disabled={isBusy} className="text-[9px] font-black text-slate-400 hover:text-slate-600 disabled:opacity-40">닫기</button>
+      </div>
+      <div className="flex gap-1 mb-5">
+        {sentences.map((_, i) => (
+          <button key={i} onClick={() => moveTo(i)} disabled={isBusy} className={`flex-1 h-2 rounded-full transition-all ${scoreColor(progress?.scores[i])} ${i === currentIdx ? 'ring-2 ring-offset-1 ring-blue-500' : ''}`} title={`${i + 1}`}></button>
+        ))}
+      </div>
+      <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mb-1">{SHADOWING_PART_LABELS[sentence.part]} · {currentIdx + 1}/{sentences.length}</p>
+      <p className="text-base font-bold text-slate-800 leading-relaxed mb-5 lg:text-lg">{sentence.text}</p>
+
+      <button
+        onClick={step === 'RECORDING' ? () => recorderSessionRef.current?.recorder.stop() : listenAndRepeat}
+        disabled={step === 'LISTENING' || step === 'SCORING'}
+        className={`w-full py-4 rounded-2xl font-black text-sm shadow-lg transition-all disabled:opacity-60 ${step === 'RECORDING' ? 'bg-red-500 text-white animate-pulse' : 'bg-blue-600 text-white hover:bg-blue-700'}`}
+      >
+        {step === 'LISTENING' ? '듣는 중... 끝나면 바로 따라 말하세요' : step === 'RECORDING' ? '따라 말하기 완료' : step === 'SCORING' ? '채점 중...' : '듣고 따라 말하기'}
+      </button>
+      {step === 'RECORDING' && <div className="mt-3 flex justify-center"><LevelMeter analyser={recordingAnalyser} /></div>}
+
+      {lastAttempt && (
+        <div className={`mt-4 p-4 rounded-xl ${lastAttempt.score >= SHADOWING_PASS_SCORE ? 'bg-green-50' : 'bg-amber-50'}`}>
+          <p className={`text-2xl font-black tabular-nums ${lastAttempt.score >= SHADOWING_PASS_SCORE ? 'text-green-600' : 'text-amber-600'}`}>{lastAttempt.score}%</p>
+          <p className="text-xs font-medium text-slate-600 italic">"{lastAttempt.transcript}"</p>
+        </div>
+      )}
+      {!lastAttempt && bestScore !== null && bestScore !== undefined && (
+        <p className="mt-3 text-[10px] font-bold text-slate-400">최고 일치율 {bestScore}%</p>
+      )}
+
+      <div className="flex space-x-2 mt-4">
+        <button onClick={() => moveTo(currentIdx - 1)} disabled={isBusy || currentIdx === 0} className="flex-1 py-2 bg-slate-100 text-slate-500 rounded-xl text-[10px] font-black hover:bg-slate-200 transition-all disabled:opacity-40">이전 문장</button>
+        <button onClick={() => moveTo(currentIdx + 1)} disabled={isBusy || currentIdx + 1 >= sentences.length} className="flex-1 py-2 bg-slate-900 text-white rounded-xl text-[10px] font-black hover:bg-black transition-all disabled:opacity-40">다음 문장</button>
+      </div>
+    </div>
+  );
+};
+
+export default ShadowingPractice;
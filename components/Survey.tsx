@@ -2,6 +2,7 @@
 import React, { useState, useEffect, useMemo } from 'react';
 import { SurveyData, FullUser } from '../types';
 import { fetchSurveyDatabase } from '../services/api';
+import { SELF_ASSESSMENT_LEVELS, SELF_ASSESSMENT_QUESTION_ID } from '../services/selfAssessment';
 
 interface SurveyProps {
   initialData?: SurveyData;
@@ -31,6 +32,10 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
   const [answerLog, setAnswerLog] = useState<Map<string, SurveyQuestion[]>>(new Map());
   const [isSubmitting, setIsSubmitting] = useState(false);
 
+  // 배경 설문(Q1~Q7) 종료 후 진행하는 자가평가 단계
+  const [isSelfAssessmentStep, setIsSelfAssessmentStep] = useState(false);
+  const [selfAssessment, setSelfAssessment] = useState<number | null>(initialData?.selfAssessment ?? null);
+
   useEffect(() => {
     fetchSurveyDatabase(accessToken)
       .then((fetchedDb) => {
@@ -93,7 +98,8 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
       setAnswerLog(newLog);
       
       if (option.nextId === 'END') {
-        handleSubmit(newLog);
+        setHistory([...history, currentId]);
+        setIsSelfAssessmentStep(true);
       } else {
         setHistory([...history, currentId]);
         setCurrentId(option.nextId);
@@ -119,7 +125,8 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
           alert(`현재 총 ${totalSelectedCount}개가 선택되었습니다. 최소 12개 이상의 항목을 선택해야 합니다.`);
           return;
         }
-        handleSubmit(answerLog);
+        setHistory([...history, currentId]);
+        setIsSelfAssessmentStep(true);
       } else {
         setHistory([...history, currentId]);
         setCurrentId(nextId);
@@ -128,6 +135,11 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
   };
 
   const handleBack = () => {
+    if (isSelfAssessmentStep) {
+      setIsSelfAssessmentStep(false);
+      setHistory(history.slice(0, -1));
+      return;
+    }
     if (history.length > 0) {
       const prevId = history[history.length - 1];
       setHistory(history.slice(0, -1));
@@ -149,6 +161,18 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
         };
       });
 
+      if (selfAssessment) {
+        const levelInfo = SELF_ASSESSMENT_LEVELS.find(l => l.level === selfAssessment);
+        detailedAnswers.push({
+          step: "8",
+          questionId: SELF_ASSESSMENT_QUESTION_ID,
+          questionText: "Self Assessment",
+          selection: [String(selfAssessment)],
+          isStrategic: false,
+          memo: levelInfo?.description || ""
+        });
+      }
+
       await onComplete(detailedAnswers);
     } finally {
       setIsSubmitting(false);
@@ -177,9 +201,9 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
             </h2>
             <div className="flex flex-col items-end">
                 <span className="bg-blue-600 px-4 py-1 rounded-full text-[10px] font-black uppercase mb-1 tracking-widest">
-                  Step {currentStep}
+                  {isSelfAssessmentStep ? 'Self Assessment' : `Step ${currentStep}`}
                 </span>
-                {['Q4', 'Q5', 'Q6', 'Q7'].includes(currentId) && (
+                {!isSelfAssessmentStep && ['Q4', 'Q5', 'Q6', 'Q7'].includes(currentId) && (
                     <span className={`text-[10px] font-bold ${totalSelectedCount >= 12 ? 'text-green-400' : 'text-blue-300 animate-pulse'}`}>
                         누적 선택: {totalSelectedCount} / 12 (필수)
                     </span>
@@ -189,59 +213,90 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
           <div className="w-full bg-slate-800 h-1.5 rounded-full overflow-hidden">
             <div 
               className="bg-blue-500 h-full transition-all duration-700 ease-out shadow-[0_0_10px_rgba(59,130,246,0.5)]" 
-              style={{ width: `${(parseInt(currentStep) / 7) * 100}%` }}
+              style={{ width: isSelfAssessmentStep ? '100%' : `${(parseInt(currentStep) / 7) * 100}%` }}
             ></div>
           </div>
         </div>
 
         {/* Content */}
         <div className="p-8 md:p-12 min-h-[500px] flex flex-col">
-          <div className="flex-grow space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
-            <div className="space-y-2">
-               <h3 className="text-2xl font-black text-gray-900 leading-tight">
-                {currentQuestionText.split(' ').map((word, i) => (
-                  <span key={i} className={word.includes('분야') || word.includes('활동') || word.includes('운동') || word.includes('거주') || word.includes('학생') ? 'text-blue-600 mr-1' : 'mr-1'}>
-                    {word}
-                  </span>
-                ))}
-              </h3>
-              {isMultiple && (
-                <p className="text-[11px] text-slate-400 font-bold italic">* 중복 선택이 가능하며, 4~7단계 합산 12개 이상 선택이 필수입니다.</p>
-              )}
+          {isSelfAssessmentStep ? (
+            <div className="flex-grow space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+              <div className="space-y-2">
+                <h3 className="text-2xl font-black text-gray-900 leading-tight">
+                  본 <span className="text-blue-600">Self Assessment</span>에 대한 응답을 기준으로 질문의 난이도가 결정됩니다.
+                </h3>
+                <p className="text-[11px] text-slate-400 font-bold italic">* 선택한 난이도는 AI 질문 생성과 채점 목표 등급에 반영됩니다.</p>
+              </div>
+
+              <div className="grid gap-3 grid-cols-1">
+                {SELF_ASSESSMENT_LEVELS.map(level => {
+                  const isSelected = selfAssessment === level.level;
+                  return (
+                    <button
+                      key={level.level}
+                      onClick={() => setSelfAssessment(level.level)}
+                      className={`relative p-5 rounded-2xl text-left border-2 transition-all flex items-center space-x-4
+                        ${isSelected 
+                          ? 'border-blue-600 bg-blue-50 text-blue-700 font-bold shadow-md' 
+                          : 'border-gray-100 hover:border-gray-200 text-gray-500 bg-white hover:bg-slate-50'}`}
+                    >
+                      <span className={`w-8 h-8 rounded-full flex items-center justify-center shrink-0 text-xs font-black ${isSelected ? 'bg-blue-600 text-white' : 'bg-slate-100 text-slate-400'}`}>{level.level}</span>
+                      <span className="text-xs leading-relaxed flex-grow">{level.description}</span>
+                      <span className="text-[9px] font-black uppercase tracking-widest shrink-0 opacity-60">{level.targetGrade}</span>
+                    </button>
+                  );
+                })}
+              </div>
             </div>
+          ) : (
+            <div className="flex-grow space-y-8 animate-in fade-in slide-in-from-bottom-4 duration-500">
+              <div className="space-y-2">
+                 <h3 className="text-2xl font-black text-gray-900 leading-tight">
+                  {currentQuestionText.split(' ').map((word, i) => (
+                    <span key={i} className={word.includes('분야') || word.includes('활동') || word.includes('운동') || word.includes('거주') || word.includes('학생') ? 'text-blue-600 mr-1' : 'mr-1'}>
+                      {word}
+                    </span>
+                  ))}
+                </h3>
+                {isMultiple && (
+                  <p className="text-[11px] text-slate-400 font-bold italic">* 중복 선택이 가능하며, 4~7단계 합산 12개 이상 선택이 필수입니다.</p>
+                )}
+              </div>
 
-            <div className={`grid gap-3 ${isMultiple ? 'grid-cols-2 md:grid-cols-3' : 'grid-cols-1'}`}>
-              {currentOptions.map((option, idx) => {
-                const isSelected = (answerLog.get(currentId) || []).some(s => s.option === option.option);
-                const isRecommended = option.isRecommended; // API 필드 사용
+              <div className={`grid gap-3 ${isMultiple ? 'grid-cols-2 md:grid-cols-3' : 'grid-cols-1'}`}>
+                {currentOptions.map((option, idx) => {
+                  const isSelected = (answerLog.get(currentId) || []).some(s => s.option === option.option);
+                  const isRecommended = option.isRecommended; // API 필드 사용
                 
-                return (
-                  <button
-                    key={idx}
-                    onClick={() => handleOptionClick(option)}
-                    className={`relative p-5 rounded-2xl text-left border-2 transition-all flex justify-between items-center h-full
-                      ${isSelected 
-                        ? 'border-blue-600 bg-blue-50 text-blue-700 font-bold shadow-md' 
-                        : 'border-gray-100 hover:border-gray-200 text-gray-500 bg-white hover:bg-slate-50'}`}
-                  >
-                    <span className={isMultiple ? "text-xs leading-tight" : "text-sm"}>{option.option}</span>
+                  return (
+                    <button
+                      key={idx}
+                      onClick={() => handleOptionClick(option)}
+                      className={`relative p-5 rounded-2xl text-left border-2 transition-all flex justify-between items-center h-full
+                        ${isSelected 
+                          ? 'border-blue-600 bg-blue-50 text-blue-700 font-bold shadow-md' 
+                          : 'border-gray-100 hover:border-gray-200 text-gray-500 bg-white hover:bg-slate-50'}`}
+                    >
+                      <span className={isMultiple ? "text-xs leading-tight" : "text-sm"}>{option.option}</span>
                     
-                    {isRecommended && (
-                      <span className="absolute -top-2 -right-1 bg-indigo-600 text-[8px] text-white px-1.5 py-0.5 rounded-full shadow-sm font-black uppercase tracking-tighter">AI 추천</span>
-                    )}
+                      {isRecommended && (
+                        <span className="absolute -top-2 -right-1 bg-indigo-600 text-[8px] text-white px-1.5 py-0.5 rounded-full shadow-sm font-black uppercase tracking-tighter">AI 추천</span>
+                      )}
                     
-                    {isSelected && (
-                      <div className="w-5 h-5 bg-blue-600 rounded-full flex items-center justify-center shrink-0 ml-2">
-                        <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="4" d="M5 13l4 4L19 7" />
-                        </svg>
-                      </div>
-                    )}
-                  </button>
-                );
-              })}
+                      {isSelected && (
+                        <div className="w-5 h-5 bg-blue-600 rounded-full flex items-center justify-center shrink-0 ml-2">
+                          <svg className="w-3 h-3 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="4" d="M5 13l4 4L19 7" />
+                          </svg>
+                        </div>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
             </div>
-          </div>
+          )}
 
           {/* Footer Actions */}
           <div className="mt-10 flex justify-between items-center border-t pt-8 border-slate-50">
@@ -264,7 +319,22 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
             </div>
             
             <div className="flex items-center">
-                {isMultiple && (
+                {isSelfAssessmentStep && (
+                  <button 
+                    onClick={() => handleSubmit(answerLog)} 
+                    disabled={!selfAssessment || isSubmitting} 
+                    className={`px-10 py-4 rounded-[20px] font-black text-sm transition-all shadow-xl flex items-center space-x-2 
+                      ${!selfAssessment || isSubmitting 
+                        ? 'bg-gray-100 text-gray-400 cursor-not-allowed shadow-none' 
+                        : 'bg-blue-600 text-white hover:bg-blue-700 shadow-blue-100 active:scale-95'}`}
+                  >
+                    <span>최종 완료</span>
+                    <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                      <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/>
+                    </svg>
+                  </button>
+                )}
+                {!isSelfAssessmentStep && isMultiple && (
                   <button 
                     onClick={handleNext} 
                     disabled={isNextDisabled || isSubmitting} 
@@ -273,7 +343,7 @@ const Survey: React.FC<SurveyProps> = ({ initialData, onComplete, onCancel, acce
                         ? 'bg-gray-100 text-gray-400 cursor-not-allowed shadow-none' 
                         : 'bg-blue-600 text-white hover:bg-blue-700 shadow-blue-100 active:scale-95'}`}
                   >
-                    <span>{currentOptions[0].nextId === 'END' ? '최종 완료' : '다음으로'}</span>
+                    <span>다음으로</span>
                     <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M9 5l7 7-7 7"/>
                     </svg>
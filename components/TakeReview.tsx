@@ -0,0 +1,39 @@
+import React from 'react';
+import { RecordingTake } from '../types';
+import { formatClock } from '../services/answerTimer';
+import AudioPlayer from './AudioPlayer';
+
+// 녹음 파일은 메모리에만 있으므로 너무 많이 쌓이지 않게 제한
+export const MAX_RECORDING_TAKES = 5;
+
+interface TakeReviewProps {
+  takes: RecordingTake[];
+  onSubmit: (take: RecordingTake) => void;
+  onDiscard: (takeId: string) => void;
+  onBeforePlay?: () => void;
+}
+
+const TakeReview: React.FC<TakeReviewProps> = ({ takes, onSubmit, onDiscard, onBeforePlay }) => (
+  <div className="w-full sm:max-w-md p-4 bg-white border border-slate-100 rounded-2xl shadow-sm hidden-print">
+    <div className="flex items-center justify-between mb-3">
+      <h4 className="text-[9px] font-black text-slate-400 uppercase tracking-widest">My Takes · {takes.length}/{MAX_RECORDING_TAKES}</h4>
+      <span className="text-[9px] font-bold text-slate-400">들어보고 분석할 녹음을 고르세요</span>
+    </div>
+    <div className="space-y-3">
+      {takes.map((take, i) => (
+        <div key={take.id} className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-[10px] font-black text-slate-700">Take {i + 1} <span className="font-bold text-slate-400">· {formatClock(take.durationSec * 1000)} · {take.recordedAt}</span></span>
+            <div className="flex items-center space-x-1">
+              <button onClick={() => onDiscard(take.id)} className="px-2.5 py-1 rounded-full text-[9px] font-black text-slate-400 border border-slate-200 hover:text-red-500 hover:border-red-200 transition-all">삭제</button>
+              <button onClick={() => onSubmit(take)} className="px-2.5 py-1 rounded-full text-[9px] font-black text-white bg-blue-600 hover:bg-blue-700 transition-all">이 녹음으로 분석</button>
+            </div>
+          </div>
+          <AudioPlayer sourceKey={take.id} load={async () => take.blob} onBeforePlay={onBeforePlay} />
+        </div>
+      ))}
+    </div>
+  </div>
+);
+
+export default TakeReview;
@@ -11,3 +11,5 @@ export const MASTER_SHEET_NAME = "Master_Dashboard";
 export const SURVEY_DB_SHEET_NAME = "Survey_Full_DB";
 export const QUESTION_DB_SHEET_NAME = "Question_DB";
 export const CONFIG_SETTINGS_SHEET_NAME = "Config_Settings";
+// 개인 시트의 사용자 설정 탭 (A: 키, B: 값)
+export const USER_SETTINGS_SHEET_NAME = "Settings";
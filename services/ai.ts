@@ -0,0 +1,91 @@
+import { GoogleGenAI, GenerateContentParameters } from "@google/genai";
+
+export function cleanAiText(text: string): string {
+  return text ? text.replace(/[*_`#]/g, '').replace(/\[|\]/g, '').replace(/\s+/g, " ").trim() : "";
+}
+
+// --- AI JSON 응답 검증 ---
+export type AiFieldType = 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+export interface AiFieldRule {
+  type: AiFieldType;
+  optional?: boolean;
+  validate?: (value: any) => boolean;
+}
+
+export type AiSchema = Record<string, AiFieldRule>;
+
+const matchesType = (value: any, type: AiFieldType) => {
+  if (type === 'array') return Array.isArray(value);
+  if (type === 'object') return !!value && typeof value === 'object' && !Array.isArray(value);
+  if (type === 'boolean') return typeof value === 'boolean' || value === 'true' || value === 'false';
+  if (type === 'number') return typeof value === 'number' || (typeof value === 'string' && value.trim() !== "" && !isNaN(Number(value)));
+  return typeof value === 'string';
+};
+
+// 스키마 위반 항목 목록 (빈 배열이면 통과)
+export const validateAiJson = (data: any, schema: AiSchema): string[] => {
+  if (!data || typeof data !== 'object') return ["response is not a JSON object"];
+  return Object.entries(schema).flatMap(([key, rule]) => {
+    const value = data[key];
+    if (value === undefined || value === null) return rule.optional ? [] : [`missing "${key}"`];
+    if (!matchesType(value, rule.type)) return [`"${key}" must be ${rule.type}`];
+    if (rule.validate && !rule.validate(value)) return [`"${key}" has an invalid value`];
+    return [];
+  });
+};
+
+// 배열 응답: 최소 개수와 각 항목의 스키마를 검사
+export const validateAiJsonArray = (data: any, itemSchema: AiSchema, minLength: number = 1): string[] => {
+  if (!Array.isArray(data)) return ["response is not a JSON array"];
+  if (data.length < minLength) return [`expected at least ${minLength} items, got ${data.length}`];
+  return data.flatMap((item, i) => validateAiJson(item, itemSchema).map(err => `[${i}] ${err}`));
+};
+
+export const partsSchemaRule: AiFieldRule = {
+  type: 'object',
+  validate: (v) => ['intro', 'body', 'conclusion'].every(k => typeof v[k] === 'string')
+};
+
+export const QUESTION_SCHEMA: AiSchema = {
+  question: { type: 'string', validate: (v) => v.trim().length > 0 },
+  unit: { type: 'string', optional: true },
+  type: { type: 'string', optional: true },
+  description: { type: 'string', optional: true }
+};
+
+// 특정 필드만 검증에 실패한 응답을 살려 쓰는 fallback (예: 등급만 인식 불가한 채점 결과)
+export const acceptWithoutField = (schema: AiSchema, key: string) => (raw: any) =>
+  validateAiJson(raw, { ...schema, [key]: { ...schema[key], optional: true, validate: undefined } }).length === 0 ? raw : null;
+
+export interface ValidatedJsonOptions<T> {
+  maxAttempts?: number;
+  // 재요청 후에도 검증에 실패했을 때 마지막 응답을 살려 쓸 수 있으면 값을, 아니면 null을 반환
+  fallback?: (data: any) => T | null;
+}
+
+// JSON 응답을 요청하고 검증을 통과할 때까지 재요청 (잘못된 응답이 화면/시트에 저장되지 않도록)
+export const generateValidatedJson = async <T>(
+  ai: GoogleGenAI,
+  request: GenerateContentParameters,
+  validator: AiSchema | ((data: any) => string[]),
+  options: ValidatedJsonOptions<T> = {}
+): Promise<T> => {
+  const { maxAttempts = 2, fallback } = options;
+  const validate = typeof validator === 'function' ? validator : (data: any) => validateAiJson(data, validator);
+  let lastData: any = null;
+  let lastErrors: string[] = [];
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const res = await ai.models.generateContent({
+      ...request,
+      config: { ...request.config, responseMimeType: "application/json" }
+    });
+    try { lastData = JSON.parse(res.text || ""); } catch (e) { lastData = null; }
+    lastErrors = validate(lastData);
+    if (lastErrors.length === 0) return lastData as T;
+    console.warn(`AI response rejected (attempt ${attempt}/${maxAttempts}):`, lastErrors);
+  }
+  const recovered = fallback && lastData ? fallback(lastData) : null;
+  if (recovered) return recovered;
+  throw new Error(`Malformed AI response: ${lastErrors.join(', ')}`);
+};
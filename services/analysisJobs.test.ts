@@ -0,0 +1,156 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AnalysisJob, StudyLogEntry, UnitProgress } from '../types';
+import {
+  findJobUnitIndex,
+  getNextAnalysisStep,
+  getSessionTimestamp,
+  hasNewerPractice,
+  isStaleJob,
+  MAX_STEP_ATTEMPTS,
+  retryWithBackoff,
+  STALE_JOB_MS,
+  toErrorMessage
+} from './analysisJobs';
+
+const CREATED_AT = 1_700_000_000_000;
+
+const makeLog = (sessionId: string, unit: string): StudyLogEntry => ({
+  sessionId, date: '', unit, type: '', question: '', keywords: '', rawAnswer: '', rawAudioLink: '',
+  grade: '', correction: '', translatedAnswer: '', feedback: '', audioLink: ''
+});
+
+const makeJob = (overrides: Partial<AnalysisJob> = {}): AnalysisJob => ({
+  id: `SESS_${CREATED_AT}_abc`,
+  userEmail: 'user@example.com',
+  createdAt: CREATED_AT,
+  blob: new Blob(),
+  step: 'UPLOAD',
+  status: 'PENDING',
+  attempts: 0,
+  unitIdx: 1,
+  unitFullId: 'U02',
+  unitGrade: 'IM2',
+  log: makeLog(`SESS_${CREATED_AT}_abc`, '[U02] 집'),
+  gradingPrompt: '',
+  isConsensus: false,
+  ...overrides
+});
+
+const makeUnit = (fullId: string): UnitProgress => ({ fullId, unitId: fullId, topic: '', essence: '', status: '', grade: '', lastPractice: '' });
+
+describe('getNextAnalysisStep', () => {
+  it('advances through the pipeline in order', () => {
+    expect(getNextAnalysisStep('UPLOAD')).toBe('GRADE');
+    expect(getNextAnalysisStep('GRADE')).toBe('SAVE_LOG');
+    expect(getNextAnalysisStep('UPDATE_MASTER')).toBe('MODEL_AUDIO');
+    expect(getNextAnalysisStep('MODEL_AUDIO')).toBe('DONE');
+  });
+
+  it('stays on DONE', () => {
+    expect(getNextAnalysisStep('DONE')).toBe('DONE');
+  });
+});
+
+describe('isStaleJob', () => {
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('treats jobs older than STALE_JOB_MS as stale', () => {
+    vi.useFakeTimers();
+    vi.setSystemTime(CREATED_AT + STALE_JOB_MS);
+    expect(isStaleJob(makeJob())).toBe(false);
+    vi.setSystemTime(CREATED_AT + STALE_JOB_MS + 1);
+    expect(isStaleJob(makeJob())).toBe(true);
+  });
+});
+
+describe('getSessionTimestamp', () => {
+  it('reads the timestamp from a session id', () => {
+    expect(getSessionTimestamp(`SESS_${CREATED_AT}_xyz`)).toBe(CREATED_AT);
+  });
+
+  it('returns 0 for ids without a timestamp', () => {
+    expect(getSessionTimestamp('manual')).toBe(0);
+    expect(getSessionTimestamp('SESS_abc_1')).toBe(0);
+  });
+});
+
+describe('hasNewerPractice', () => {
+  const job = makeJob();
+
+  it('detects a later session on the same unit', () => {
+    expect(hasNewerPractice([makeLog(`SESS_${CREATED_AT + 1}_x`, '[U02] 집')], job)).toBe(true);
+  });
+
+  it('ignores the job itself, older sessions and other units', () => {
+    expect(hasNewerPractice([
+      makeLog(job.id, '[U02] 집'),
+      makeLog(`SESS_${CREATED_AT - 1}_x`, '[U02] 집'),
+      makeLog(`SESS_${CREATED_AT + 1}_y`, '[U03] 공원')
+    ], job)).toBe(false);
+  });
+});
+
+describe('findJobUnitIndex', () => {
+  it('keeps the stored index when the row still matches', () => {
+    expect(findJobUnitIndex([makeUnit('U01'), makeUnit('U02')], makeJob())).toBe(1);
+  });
+
+  it('finds the unit by full id when rows were reordered', () => {
+    expect(findJobUnitIndex([makeUnit('U02'), makeUnit('U01')], makeJob())).toBe(0);
+    expect(findJobUnitIndex([makeUnit('U01')], makeJob())).toBe(-1);
+  });
+});
+
+describe('toErrorMessage', () => {
+  it('uses the message of Error instances', () => {
+    expect(toErrorMessage(new Error('boom'))).toBe('boom');
+    expect(toErrorMessage('offline')).toBe('offline');
+  });
+});
+
+describe('retryWithBackoff', () => {
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('returns the first successful result', async () => {
+    const task = vi.fn().mockResolvedValue('ok');
+    await expect(retryWithBackoff(task)).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries with 1s, 2s, 4s delays before succeeding', async () => {
+    vi.useFakeTimers();
+    const task = vi.fn()
+      .mockRejectedValueOnce(new Error('1'))
+      .mockRejectedValueOnce(new Error('2'))
+      .mockRejectedValueOnce(new Error('3'))
+      .mockResolvedValue('ok');
+    const onRetry = vi.fn();
+    const result = retryWithBackoff(task, onRetry);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(task).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(task).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(task).toHaveBeenCalledTimes(3);
+    await vi.advanceTimersByTimeAsync(4000);
+
+    await expect(result).resolves.toBe('ok');
+    expect(task).toHaveBeenCalledTimes(4);
+    expect(onRetry.mock.calls.map(c => c[0])).toEqual([1, 2, 3]);
+  });
+
+  it('gives up after MAX_STEP_ATTEMPTS with the last error', async () => {
+    vi.useFakeTimers();
+    let calls = 0;
+    const task = vi.fn(async () => { throw new Error(`fail ${++calls}`); });
+    const result = retryWithBackoff(task);
+    const settled = expect(result).rejects.toThrow(`fail ${MAX_STEP_ATTEMPTS}`);
+
+    await vi.runAllTimersAsync();
+    await settled;
+    expect(task).toHaveBeenCalledTimes(MAX_STEP_ATTEMPTS);
+  });
+});
@@ -0,0 +1,79 @@
+// 녹음 분석 파이프라인(업로드 → 채점 → 기록 저장 → 진도 반영 → 모범답안 음성)의 로컬 저장과 재시도
+import { AnalysisJob, AnalysisJobStep, StudyLogEntry, UnitProgress } from '../types';
+import { openIndexedDb, runRequest } from './indexedDb';
+
+const DB_NAME = 'opic_analysis_jobs';
+const STORE_NAME = 'jobs';
+const DB_VERSION = 1;
+
+export const ANALYSIS_STEP_ORDER: AnalysisJobStep[] = ['UPLOAD', 'GRADE', 'SAVE_LOG', 'UPDATE_UNIT', 'UPDATE_MASTER', 'MODEL_AUDIO', 'DONE'];
+
+export const ANALYSIS_STEP_LABELS: Record<AnalysisJobStep, string> = {
+  UPLOAD: '녹음 업로드',
+  GRADE: 'AI 채점',
+  SAVE_LOG: '학습 기록 저장',
+  UPDATE_UNIT: '유닛 진도 반영',
+  UPDATE_MASTER: '전체 진도 반영',
+  MODEL_AUDIO: '모범답안 음성 생성',
+  DONE: '완료'
+};
+
+// 단계별 최대 시도 횟수 (1s → 2s → 4s 간격으로 재시도)
+export const MAX_STEP_ATTEMPTS = 4;
+const RETRY_BASE_DELAY_MS = 1000;
+
+export const getNextAnalysisStep = (step: AnalysisJobStep): AnalysisJobStep =>
+  ANALYSIS_STEP_ORDER[Math.min(ANALYSIS_STEP_ORDER.indexOf(step) + 1, ANALYSIS_STEP_ORDER.length - 1)];
+
+// 오프라인 보관 등으로 늦게 처리되는 작업은 유닛 진도를 덮어쓰기 전에 최신 기록을 확인
+export const STALE_JOB_MS = 5 * 60 * 1000;
+
+export const isStaleJob = (job: AnalysisJob): boolean => Date.now() - job.createdAt > STALE_JOB_MS;
+
+// sessionId(SESS_타임스탬프_xxx)에서 녹음 시각 추출
+export const getSessionTimestamp = (sessionId: string): number => Number(sessionId.split('_')[1]) || 0;
+
+export const hasNewerPractice = (logs: StudyLogEntry[], job: AnalysisJob): boolean =>
+  logs.some(l => l.sessionId !== job.id && l.unit.startsWith(`[${job.unitFullId}]`) && getSessionTimestamp(l.sessionId) > job.createdAt);
+
+// 다른 기기에서 서베이를 바꿔 Progress 행 순서가 달라졌을 수 있으므로 full_id로 다시 찾음
+export const findJobUnitIndex = (units: UnitProgress[], job: AnalysisJob): number =>
+  units[job.unitIdx]?.fullId === job.unitFullId ? job.unitIdx : units.findIndex(u => u.fullId === job.unitFullId);
+
+export const toErrorMessage = (e: unknown): string => e instanceof Error ? e.message : String(e);
+
+export const retryWithBackoff = async <T>(task: () => Promise<T>, onRetry?: (failedAttempts: number, error: unknown) => void): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task();
+    } catch (e) {
+      if (attempt >= MAX_STEP_ATTEMPTS) throw e;
+      onRetry?.(attempt, e);
+      await new Promise(resolve => setTimeout(resolve, RETRY_BASE_DELAY_MS * 2 ** (attempt - 1)));
+    }
+  }
+};
+
+const openStore = async (mode: IDBTransactionMode) =>
+  (await openIndexedDb(DB_NAME, DB_VERSION, db => {
+    db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+  })).transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+
+export const loadAnalysisJobs = async (userEmail: string): Promise<AnalysisJob[]> => {
+  try {
+    const jobs = await runRequest<AnalysisJob[]>((await openStore('readonly')).getAll());
+    return jobs.filter(j => j.userEmail === userEmail).sort((a, b) => a.createdAt - b.createdAt);
+  } catch (e) { return []; }
+};
+
+export const loadAnalysisJob = async (jobId: string): Promise<AnalysisJob | null> => {
+  try { return (await runRequest<AnalysisJob | undefined>((await openStore('readonly')).get(jobId))) || null; } catch (e) { return null; }
+};
+
+export const saveAnalysisJob = async (job: AnalysisJob): Promise<void> => {
+  try { await runRequest((await openStore('readwrite')).put(job)); } catch (e) { console.error("Analysis job save fail", e); }
+};
+
+export const deleteAnalysisJob = async (jobId: string): Promise<void> => {
+  try { await runRequest((await openStore('readwrite')).delete(jobId)); } catch (e) {}
+};
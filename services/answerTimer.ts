@@ -0,0 +1,63 @@
+// 실제 OPIc 시험 기준 시간 설정
+export const MOCK_EXAM_TIME_LIMIT_MS = 40 * 60 * 1000;
+export const ANSWER_TARGET_OPTIONS = [90, 120, 150];
+export const DEFAULT_ANSWER_TARGET_SEC = 120;
+// 목표 시간의 절반도 채우지 못하면 너무 짧은 답변으로 간주
+const SHORT_ANSWER_RATIO = 0.5;
+
+const ANSWER_TARGET_STORAGE_KEY = 'opic_answer_target_sec';
+
+export type AnswerTimingStatus = 'SHORT' | 'ON_TARGET' | 'OVERRUN';
+
+export const formatClock = (ms: number) => {
+  const totalSec = Math.max(0, Math.floor(ms / 1000));
+  return `${String(Math.floor(totalSec / 60)).padStart(2, '0')}:${String(totalSec % 60).padStart(2, '0')}`;
+};
+
+export const loadAnswerTargetSec = (): number => {
+  const saved = Number(localStorage.getItem(ANSWER_TARGET_STORAGE_KEY));
+  return ANSWER_TARGET_OPTIONS.includes(saved) ? saved : DEFAULT_ANSWER_TARGET_SEC;
+};
+
+export const saveAnswerTargetSec = (sec: number) => {
+  localStorage.setItem(ANSWER_TARGET_STORAGE_KEY, String(sec));
+};
+
+export const getAnswerTimingStatus = (elapsedSec: number, targetSec: number): AnswerTimingStatus => {
+  if (elapsedSec < targetSec * SHORT_ANSWER_RATIO) return 'SHORT';
+  if (elapsedSec > targetSec) return 'OVERRUN';
+  return 'ON_TARGET';
+};
+
+export const ANSWER_TIMING_LABELS: Record<AnswerTimingStatus, string> = {
+  SHORT: '답변이 너무 짧습니다',
+  ON_TARGET: '적정 답변 시간',
+  OVERRUN: '목표 시간 초과'
+};
+
+// 일시정지 구간을 제외한 실제 답변 시간을 측정하는 스톱워치
+export interface AnswerClock {
+  startedAt: number | null; // 진행 중일 때만 값이 있음
+  accumulatedMs: number;
+}
+
+export const startAnswerClock = (): AnswerClock => ({ startedAt: Date.now(), accumulatedMs: 0 });
+
+export const pauseAnswerClock = (clock: AnswerClock): AnswerClock => ({
+  startedAt: null,
+  accumulatedMs: readAnswerClockMs(clock)
+});
+
+export const resumeAnswerClock = (clock: AnswerClock): AnswerClock =>
+  clock.startedAt ? clock : { ...clock, startedAt: Date.now() };
+
+export const readAnswerClockMs = (clock: AnswerClock | null): number => {
+  if (!clock) return 0;
+  return clock.accumulatedMs + (clock.startedAt ? Date.now() - clock.startedAt : 0);
+};
+
+// 채점 프롬프트에 덧붙이는 답변 시간 컨텍스트
+export const buildDurationContext = (durationSec?: number, targetSec: number = DEFAULT_ANSWER_TARGET_SEC): string => {
+  if (!durationSec) return "";
+  return `The answer lasted ${formatClock(durationSec * 1000)} (target ${formatClock(targetSec * 1000)}, status: ${getAnswerTimingStatus(durationSec, targetSec)}). Consider answer length and time management as the real exam would, and mention it in the feedback if it was too short or too long.`;
+};
@@ -1,6 +1,15 @@
 
-import { MASTER_SPREADSHEET_ID, MASTER_SHEET_NAME, SURVEY_DB_SHEET_NAME, QUESTION_DB_SHEET_NAME, CONFIG_SETTINGS_SHEET_NAME } from '../constants';
-import { GoogleUser, UserStudyContext, SurveyData, UnitProgress, StudyLogEntry, VocabularyEntry } from '../types';
+import { MASTER_SPREADSHEET_ID, MASTER_SHEET_NAME, SURVEY_DB_SHEET_NAME, QUESTION_DB_SHEET_NAME, CONFIG_SETTINGS_SHEET_NAME, USER_SETTINGS_SHEET_NAME } from '../constants';
+import { GoogleUser, UserStudyContext, SurveyData, UnitProgress, StudyLogEntry, VocabularyEntry, QuestionDbEntry, DrillResult } from '../types';
+import { SELF_ASSESSMENT_QUESTION_ID } from './selfAssessment';
+import { rubricToRowValues, rowValuesToRubric } from './rubric';
+import { serializeGradeSamples, parseGradeSamples } from './consensus';
+import { fluencyToRowValues, rowValuesToFluency } from './fluency';
+import { serializeGrammarCorrections, deserializeGrammarCorrections } from './grammar';
+import { DRILL_LOG_SHEET_NAME, DRILL_LOG_HEADERS } from './drill';
+import { serializePronunciationIssues, deserializePronunciationIssues } from './pronunciation';
+import { serializeShadowingProgress, deserializeShadowingProgress } from './shadowing';
+import { withAudioCache, removeCachedAudio, driveCacheKey } from './audioCache';
 
 // --- Token Refresh Interceptor ---
 let isRefreshing = false;
@@ -126,7 +135,7 @@ export const fetchSurveyDatabase = async (accessToken: string) => {
   }));
 };
 
-export const fetchQuestionDatabase = async (accessToken: string) => {
+export const fetchQuestionDatabase = async (accessToken: string): Promise<QuestionDbEntry[]> => {
   const range = `${QUESTION_DB_SHEET_NAME}!A1:K1000`; 
   const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${MASTER_SPREADSHEET_ID}/values/${encodeURIComponent(range)}`, {}, accessToken);
   if (!res.ok) throw new Error("Question DB fetch failed");
@@ -282,17 +291,102 @@ export const deleteFileFromDrive = async (fileUrl: string, accessToken: string):
   const res = await authenticatedFetch(`https://www.googleapis.com/drive/v3/files/${fileId}`, {
     method: 'DELETE'
   }, accessToken);
+  if (res.status === 204) removeCachedAudio(driveCacheKey(fileId));
   return res.status === 204;
 };
 
+export const downloadDriveFile = async (fileUrl: string, accessToken: string): Promise<Blob | null> => {
+  const fileId = extractId(fileUrl);
+  if (!fileId) return null;
+  const res = await authenticatedFetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {}, accessToken);
+  return res.ok ? res.blob() : null;
+};
+
+// 녹음 파일은 한 번 올라가면 바뀌지 않으므로 파일 ID 기준으로 로컬 캐시
+// (캐시 읽기/쓰기 실패는 audioCache에서 삼키고 그냥 내려받으며, 다운로드 오류는 호출부로 전달)
+export const downloadDriveAudio = async (fileUrl: string, accessToken: string): Promise<Uint8Array | null> => {
+  const fileId = extractId(fileUrl);
+  if (!fileId) return null;
+  return withAudioCache(driveCacheKey(fileId), async () => {
+    const res = await authenticatedFetch(`https://www.googleapis.com/drive/v3/files/${fileId}?alt=media`, {}, accessToken);
+    if (!res.ok) throw new Error(`Drive download failed (${res.status})`);
+    return new Uint8Array(await res.arrayBuffer());
+  });
+};
+
+export const listDriveFiles = async (folderId: string, nameContains: string, accessToken: string): Promise<{ id: string, name: string }[]> => {
+  // Drive 검색어 안의 문자열 리터럴은 \ 와 ' 를 이스케이프해야 함
+  const escaped = nameContains.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+  const q = `'${folderId}' in parents and name contains '${escaped}' and trashed = false`;
+  const files: { id: string, name: string }[] = [];
+  let pageToken = "";
+  do {
+    const res = await authenticatedFetch(`https://www.googleapis.com/drive/v3/files?q=${encodeURIComponent(q)}&fields=nextPageToken,files(id,name)&pageSize=1000${pageToken ? `&pageToken=${pageToken}` : ""}`, {}, accessToken);
+    if (!res.ok) throw new Error("Failed to list Drive files");
+    const data = await res.json();
+    files.push(...(data.files || []));
+    pageToken = data.nextPageToken || "";
+  } while (pageToken);
+  return files;
+};
+
+// 파일 ID(공유 링크)는 유지한 채 내용과 이름만 교체
+export const replaceDriveFileContent = async (fileId: string, blob: Blob, fileName: string, accessToken: string): Promise<boolean> => {
+  const form = new FormData();
+  form.append('metadata', new Blob([JSON.stringify({ name: fileName, mimeType: blob.type })], { type: 'application/json' }));
+  form.append('file', blob);
+  const res = await authenticatedFetch(`https://www.googleapis.com/upload/drive/v3/files/${fileId}?uploadType=multipart`, {
+    method: 'PATCH',
+    body: form
+  }, accessToken);
+  return res.ok;
+};
+
+const STUDY_LOG_LAST_COL = 'AN';
+
+// Study_Log 시트의 B열 이후 값 (A열은 sessionId)
+const studyLogToRowValues = (log: StudyLogEntry) => [
+  log.date, log.unit, log.type, log.question, log.keywords, 
+  log.rawAnswer, log.rawAudioLink, log.grade, log.correction, log.translatedAnswer, log.feedback, log.audioLink,
+  log.examId || "", log.comboId || "", log.rolePlayRubric || "", log.answerDurationSec ?? "",
+  log.questionReplayed === undefined ? "" : (log.questionReplayed ? "TRUE" : "FALSE"),
+  ...rubricToRowValues(log.rubric),
+  serializeGradeSamples(log.gradeSamples), log.gradeConfidence === undefined ? "" : Math.round(log.gradeConfidence * 100),
+  ...fluencyToRowValues(log.fluency),
+  serializeGrammarCorrections(log.grammarCorrections),
+  serializePronunciationIssues(log.pronunciationIssues),
+  serializeShadowingProgress(log.shadowing),
+  log.modelVoice || ""
+];
+
+const rowToStudyLog = (row: any[]): StudyLogEntry => ({
+  sessionId: row[0] || "", date: row[1] || "", unit: row[2] || "", type: row[3] || "", 
+  question: row[4] || "", keywords: row[5] || "", rawAnswer: row[6] || "", 
+  rawAudioLink: row[7] || "", grade: row[8] || "", correction: row[9] || "", 
+  translatedAnswer: row[10] || "", feedback: row[11] || "", audioLink: row[12] || "",
+  examId: row[13] || "", comboId: row[14] || "", rolePlayRubric: row[15] || "",
+  answerDurationSec: row[16] ? Number(row[16]) : undefined,
+  questionReplayed: row[17] ? row[17].toString().toUpperCase() === 'TRUE' : undefined,
+  rubric: rowValuesToRubric(row.slice(18, 24), row[24]),
+  gradeSamples: parseGradeSamples(row[25]),
+  gradeConfidence: row[26] !== undefined && row[26] !== "" ? Number(row[26]) / 100 : undefined,
+  fluency: rowValuesToFluency(row.slice(27, 36)),
+  grammarCorrections: deserializeGrammarCorrections(row[36]),
+  pronunciationIssues: deserializePronunciationIssues(row[37]),
+  shadowing: deserializeShadowingProgress(row[38]),
+  modelVoice: row[39] || ""
+});
+
 export const saveStudyLog = async (sheetId: string, log: StudyLogEntry, accessToken: string): Promise<boolean> => {
+  return saveStudyLogs(sheetId, [log], accessToken);
+};
+
+export const saveStudyLogs = async (sheetId: string, logs: StudyLogEntry[], accessToken: string): Promise<boolean> => {
+  if (logs.length === 0) return true;
   const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Study_Log!A:A:append?valueInputOption=USER_ENTERED`, {
     method: 'POST',
     headers: { 'Content-Type': 'application/json' },
-    body: JSON.stringify({ values: [[
-      log.sessionId, log.date, log.unit, log.type, log.question, log.keywords, 
-      log.rawAnswer, log.rawAudioLink, log.grade, log.correction, log.translatedAnswer, log.feedback, log.audioLink
-    ]] })
+    body: JSON.stringify({ values: logs.map(log => [log.sessionId, ...studyLogToRowValues(log)]) })
   }, accessToken);
   return res.ok;
 };
@@ -300,34 +394,32 @@ export const saveStudyLog = async (sheetId: string, log: StudyLogEntry, accessTo
 export const updateStudyLog = async (sheetId: string, log: StudyLogEntry, accessToken: string): Promise<boolean> => {
   try {
     const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Study_Log!A:A`, {}, accessToken);
+    if (!res.ok) return false;
     const data = await res.json();
     const rows = data.values || [];
     const rowIndex = rows.findIndex((r: any[]) => r[0] === log.sessionId);
     if (rowIndex === -1) return false;
     const sheetRow = rowIndex + 1;
-    await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Study_Log!B${sheetRow}:M${sheetRow}?valueInputOption=USER_ENTERED`, {
+    const putRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Study_Log!B${sheetRow}:${STUDY_LOG_LAST_COL}${sheetRow}?valueInputOption=USER_ENTERED`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ values: [[
-        log.date, log.unit, log.type, log.question, log.keywords, 
-        log.rawAnswer, log.rawAudioLink, log.grade, log.correction, log.translatedAnswer, log.feedback, log.audioLink
-      ]] })
+      body: JSON.stringify({ values: [studyLogToRowValues(log)] })
     }, accessToken);
-    return true;
+    return putRes.ok;
   } catch (e) { return false; }
 };
 
-export const fetchStudyLogs = async (sheetId: string, accessToken: string): Promise<StudyLogEntry[]> => {
+// throwOnError: 조회 실패를 빈 기록으로 취급하면 안 되는 경우(진도 충돌 확인 등)
+export const fetchStudyLogs = async (sheetId: string, accessToken: string, throwOnError: boolean = false): Promise<StudyLogEntry[]> => {
   try {
-    const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Study_Log!A2:M1000`, {}, accessToken);
+    const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Study_Log!A2:${STUDY_LOG_LAST_COL}1000`, {}, accessToken);
+    if (!res.ok) throw new Error("Study_Log fetch failed");
     const data = await res.json();
-    return (data.values || []).map((row: any[]) => ({
-      sessionId: row[0] || "", date: row[1] || "", unit: row[2] || "", type: row[3] || "", 
-      question: row[4] || "", keywords: row[5] || "", rawAnswer: row[6] || "", 
-      rawAudioLink: row[7] || "", grade: row[8] || "", correction: row[9] || "", 
-      translatedAnswer: row[10] || "", feedback: row[11] || "", audioLink: row[12] || ""
-    }));
-  } catch (e) { return []; }
+    return (data.values || []).map(rowToStudyLog);
+  } catch (e) {
+    if (throwOnError) throw e;
+    return [];
+  }
 };
 
 export const deleteStudyLogBySessionId = async (sheetId: string, sessionId: string, accessToken: string): Promise<boolean> => {
@@ -403,6 +495,86 @@ export const deleteVocabularyEntry = async (sheetId: string, vocabId: string, ac
   } catch (e) { return false; }
 };
 
+// 기존 개인 시트에는 없는 탭이므로 처음 저장할 때 헤더와 함께 생성
+const ensureSheetTab = async (sheetId: string, title: string, headers: string[], accessToken: string): Promise<boolean> => {
+  const metaRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}?fields=sheets.properties`, {}, accessToken);
+  const metaData = await metaRes.json();
+  if (metaData.sheets?.some((s: any) => s.properties.title === title)) return true;
+  const addRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}:batchUpdate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ requests: [{ addSheet: { properties: { title } } }] })
+  }, accessToken);
+  if (!addRes.ok) return false;
+  const headerRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${title}!A1?valueInputOption=USER_ENTERED`, {
+    method: 'PUT',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ values: [headers] })
+  }, accessToken);
+  return headerRes.ok;
+};
+
+export const saveDrillResults = async (sheetId: string, results: DrillResult[], accessToken: string): Promise<boolean> => {
+  try {
+    if (!await ensureSheetTab(sheetId, DRILL_LOG_SHEET_NAME, DRILL_LOG_HEADERS, accessToken)) return false;
+    const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${DRILL_LOG_SHEET_NAME}!A:A:append?valueInputOption=USER_ENTERED`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ values: results.map(r => [
+        r.drillId, r.setId, r.date, r.type, r.category, r.prompt, r.answer, r.userAnswer, r.correct ? "TRUE" : "FALSE", r.feedback
+      ]) })
+    }, accessToken);
+    return res.ok;
+  } catch (e) { return false; }
+};
+
+export const fetchUserSettings = async (sheetId: string, accessToken: string): Promise<Record<string, string>> => {
+  try {
+    const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${USER_SETTINGS_SHEET_NAME}!A2:B50`, {}, accessToken);
+    if (!res.ok) return {};
+    const data = await res.json();
+    const settings: Record<string, string> = {};
+    (data.values || []).forEach((row: any[]) => {
+      if (row[0]) settings[row[0].trim()] = (row[1] || "").trim();
+    });
+    return settings;
+  } catch (e) { return {}; }
+};
+
+// 기존 키는 값만 덮어쓰고 새 키는 추가
+export const saveUserSettings = async (sheetId: string, updates: Record<string, string>, accessToken: string): Promise<boolean> => {
+  try {
+    if (!await ensureSheetTab(sheetId, USER_SETTINGS_SHEET_NAME, ['Key', 'Value'], accessToken)) return false;
+    const merged = { ...await fetchUserSettings(sheetId, accessToken), ...updates };
+    const rows = Object.entries(merged);
+    const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${USER_SETTINGS_SHEET_NAME}!A2:B${rows.length + 1}?valueInputOption=RAW`, {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ values: rows })
+    }, accessToken);
+    return res.ok;
+  } catch (e) { return false; }
+};
+
+export const fetchDrillResults = async (sheetId: string, accessToken: string): Promise<DrillResult[]> => {
+  try {
+    const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/${DRILL_LOG_SHEET_NAME}!A2:J1000`, {}, accessToken);
+    const data = await res.json();
+    return (data.values || []).map((row: any[]) => ({
+      drillId: row[0] || "",
+      setId: row[1] || "",
+      date: row[2] || "",
+      type: row[3] || "",
+      category: row[4] || "OTHER",
+      prompt: row[5] || "",
+      answer: row[6] || "",
+      userAnswer: row[7] || "",
+      correct: String(row[8]).toUpperCase() === "TRUE",
+      feedback: row[9] || ""
+    }));
+  } catch (e) { return []; }
+};
+
 export const updateUnitStatus = async (
   sheetId: string, 
   unitIndex: number, 
@@ -410,23 +582,24 @@ export const updateUnitStatus = async (
   status: string = "완료",
   grade: string = "-",
   lastPractice: string = "-"
-): Promise<void> => {
+): Promise<boolean> => {
   const rowIdx = unitIndex + 2;
-  await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Progress!E${rowIdx}:G${rowIdx}?valueInputOption=USER_ENTERED`, {
+  const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Progress!E${rowIdx}:G${rowIdx}?valueInputOption=USER_ENTERED`, {
     method: 'PUT',
     headers: { 'Content-Type': 'application/json' },
     body: JSON.stringify({ values: [[status, grade, lastPractice]] }) 
   }, accessToken);
+  return res.ok;
 };
 
 export const updateMasterProgress = async (
   userEmail: string,
   individualSheetId: string,
   accessToken: string
-): Promise<void> => {
+): Promise<boolean> => {
   try {
     const units = await fetchProgressFromIndividualSheet(individualSheetId, accessToken);
-    if (units.length === 0) return;
+    if (units.length === 0) return true;
     
     const completedCount = units.filter(u => u.status === "완료").length;
     const progressPercent = Math.round((completedCount / units.length) * 100) + "%";
@@ -434,9 +607,10 @@ export const updateMasterProgress = async (
 
     const range = `${MASTER_SHEET_NAME}!A1:Z1000`;
     const masterRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${MASTER_SPREADSHEET_ID}/values/${encodeURIComponent(range)}`, {}, accessToken);
+    if (!masterRes.ok) return false;
     const masterData = await masterRes.json();
     const rows = masterData.values || [];
-    if (rows.length < 2) return;
+    if (rows.length < 2) return true;
 
     const h = getHeaderMap(rows[0]);
     const emailIdx = h['user email'] ?? 0;
@@ -445,31 +619,34 @@ export const updateMasterProgress = async (
     
     const targetEmail = userEmail.toLowerCase().trim();
     const rowIndex = rows.findIndex(r => (r[emailIdx] || "").toLowerCase().trim() === targetEmail);
-    if (rowIndex === -1 || progressIdx === undefined || lastAccessIdx === undefined) return;
+    if (rowIndex === -1 || progressIdx === undefined || lastAccessIdx === undefined) return true;
     
     const sheetRow = rowIndex + 1;
     const colProgress = String.fromCharCode(65 + progressIdx);
     const colLastAccess = String.fromCharCode(65 + lastAccessIdx);
 
-    await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${MASTER_SPREADSHEET_ID}/values/${MASTER_SHEET_NAME}!${colProgress}${sheetRow}?valueInputOption=USER_ENTERED`, {
+    const progressRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${MASTER_SPREADSHEET_ID}/values/${MASTER_SHEET_NAME}!${colProgress}${sheetRow}?valueInputOption=USER_ENTERED`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ values: [[progressPercent]] })
     }, accessToken);
 
-    await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${MASTER_SPREADSHEET_ID}/values/${MASTER_SHEET_NAME}!${colLastAccess}${sheetRow}?valueInputOption=USER_ENTERED`, {
+    const lastAccessRes = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${MASTER_SPREADSHEET_ID}/values/${MASTER_SHEET_NAME}!${colLastAccess}${sheetRow}?valueInputOption=USER_ENTERED`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
       body: JSON.stringify({ values: [[lastAccess]] })
     }, accessToken);
-
+    return progressRes.ok && lastAccessRes.ok;
   } catch (error) {
     console.error("updateMasterProgress error:", error);
+    return false;
   }
 };
 
 export const fetchProgressFromIndividualSheet = async (sheetId: string, accessToken: string): Promise<UnitProgress[]> => {
   const res = await authenticatedFetch(`https://sheets.googleapis.com/v4/spreadsheets/${sheetId}/values/Progress!A2:G500`, {}, accessToken);
+  // 실패를 빈 진도표로 착각해 0%로 덮어쓰지 않도록
+  if (!res.ok) throw new Error("Progress fetch failed");
   const data = await res.json();
   return (data.values || []).map((row: any[]) => ({ 
     fullId: row[0] || "",
@@ -582,8 +759,9 @@ export const fetchSurveyFromIndividualSheet = async (sheetId: string, accessToke
 
     const survey: SurveyData = { job: "", studentStatus: "", residence: "", activities: [] };
     rows.forEach((row: any[]) => {
-      const qId = row[2];
+      const qId = row[2] || "";
       const selection = row[4];
+      if (qId === SELF_ASSESSMENT_QUESTION_ID) survey.selfAssessment = parseInt(selection) || undefined;
       if (qId === 'Q1' || qId.startsWith('Q1_')) survey.job = selection;
       if (qId === 'Q2' || qId.startsWith('Q2_')) survey.studentStatus = selection;
       if (qId === 'Q3') survey.residence = selection;
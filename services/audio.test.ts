@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { pcmToWav, wavToPcm } from './audio';
+
+const toBytes = async (blob: Blob) => new Uint8Array(await blob.arrayBuffer());
+
+const samplePcm = () => new Uint8Array(new Int16Array([0, 1000, -1000, 32767, -32768, 42]).buffer);
+
+describe('pcmToWav', () => {
+  it('writes a 16-bit mono WAV header', async () => {
+    const pcm = samplePcm();
+    const wav = pcmToWav(pcm, 16000);
+    const bytes = await toBytes(wav);
+    const view = new DataView(bytes.buffer);
+    const text = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+
+    expect(wav.type).toBe('audio/wav');
+    expect(bytes.byteLength).toBe(44 + pcm.byteLength);
+    expect(text(0)).toBe('RIFF');
+    expect(view.getUint32(4, true)).toBe(36 + pcm.byteLength);
+    expect(text(8)).toBe('WAVE');
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(16000);
+    expect(view.getUint32(28, true)).toBe(32000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(text(36)).toBe('data');
+    expect(view.getUint32(40, true)).toBe(pcm.byteLength);
+  });
+});
+
+describe('wavToPcm', () => {
+  it('round-trips PCM through pcmToWav', async () => {
+    const pcm = samplePcm();
+    expect(wavToPcm(await toBytes(pcmToWav(pcm)))).toEqual(pcm);
+  });
+
+  it('returns an aligned copy usable as Int16 samples', async () => {
+    const pcm = wavToPcm(await toBytes(pcmToWav(samplePcm())));
+    expect(Array.from(new Int16Array(pcm.buffer))).toEqual([0, 1000, -1000, 32767, -32768, 42]);
+  });
+
+  it('skips chunks before data', async () => {
+    const wav = await toBytes(pcmToWav(samplePcm()));
+    const extra = new Uint8Array([...'LIST'].map(c => c.charCodeAt(0)).concat([3, 0, 0, 0, 1, 2, 3, 0]));
+    const withList = new Uint8Array([...wav.subarray(0, 36), ...extra, ...wav.subarray(36)]);
+    expect(wavToPcm(withList)).toEqual(samplePcm());
+  });
+
+  it('passes headerless legacy PCM through unchanged', () => {
+    const pcm = samplePcm();
+    expect(wavToPcm(pcm)).toBe(pcm);
+  });
+});
@@ -0,0 +1,90 @@
+import { loadRecordingGain } from './inputLevel';
+
+export function decodeBase64(base64: string) {
+  const binaryString = atob(base64);
+  const len = binaryString.length;
+  const bytes = new Uint8Array(len);
+  for (let i = 0; i < len; i++) bytes[i] = binaryString.charCodeAt(i);
+  return bytes;
+}
+
+export async function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+}
+
+export async function decodeRawPcm(data: Uint8Array, ctx: AudioContext): Promise<AudioBuffer> {
+  const dataInt16 = new Int16Array(data.buffer);
+  const buffer = ctx.createBuffer(1, dataInt16.length, 24000);
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < dataInt16.length; i++) channelData[i] = dataInt16[i] / 32768.0;
+  return buffer;
+}
+
+export interface GainRecorderSession {
+  recorder: MediaRecorder;
+  analyser: AnalyserNode;             // 증폭 후 입력 레벨 (미터 표시용)
+  release: () => void;
+}
+
+// 마이크 입력을 증폭(gain)한 뒤 MediaRecorder로 연결하는 공통 녹음 파이프라인
+export const openGainRecorder = async (gain: number = loadRecordingGain()): Promise<GainRecorderSession> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const audioCtx = new AudioContext();
+  const source = audioCtx.createMediaStreamSource(stream);
+  const gainNode = audioCtx.createGain();
+  gainNode.gain.value = gain;
+  const destination = audioCtx.createMediaStreamDestination();
+  const analyser = audioCtx.createAnalyser();
+  analyser.fftSize = 2048;
+  source.connect(gainNode);
+  gainNode.connect(destination);
+  gainNode.connect(analyser);
+  const recorder = new MediaRecorder(destination.stream);
+  return {
+    recorder,
+    analyser,
+    release: () => {
+      stream.getTracks().forEach(t => t.stop());
+      audioCtx.close();
+    }
+  };
+};
+
+// Gemini TTS 원본(16bit mono PCM)에 WAV 헤더를 붙여 <audio>로 재생 가능하게 변환
+export const pcmToWav = (data: Uint8Array, sampleRate: number = 24000): Blob => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeText = (offset: number, text: string) => { for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i)); };
+  writeText(0, 'RIFF');
+  header.setUint32(4, 36 + data.byteLength, true);
+  writeText(8, 'WAVE');
+  writeText(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true);              // PCM
+  header.setUint16(22, 1, true);              // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // byte rate
+  header.setUint16(32, 2, true);              // block align
+  header.setUint16(34, 16, true);             // bits per sample
+  writeText(36, 'data');
+  header.setUint32(40, data.byteLength, true);
+  return new Blob([header.buffer, data], { type: 'audio/wav' });
+};
+
+// WAV면 data 청크만 꺼내고, 예전 .pcm 파일(헤더 없음)은 그대로 반환
+export const wavToPcm = (bytes: Uint8Array): Uint8Array => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const readText = (offset: number) => String.fromCharCode(...bytes.subarray(offset, offset + 4));
+  if (bytes.byteLength < 12 || readText(0) !== 'RIFF' || readText(8) !== 'WAVE') return bytes;
+  let offset = 12;
+  while (offset + 8 <= bytes.byteLength) {
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (readText(offset) === 'data') return bytes.slice(offset + 8, Math.min(offset + 8 + chunkSize, bytes.byteLength));
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return bytes;
+};
@@ -0,0 +1,104 @@
+// TTS PCM과 Drive에서 받은 녹음 파일을 브라우저(IndexedDB)에 보관하는 LRU 캐시
+import { openIndexedDb, runRequest } from './indexedDb';
+
+const DB_NAME = 'opic_audio_cache';
+const DATA_STORE = 'audio';
+// 용량 계산과 LRU 정렬 시 오디오 본문까지 읽지 않도록 메타 정보는 따로 보관
+const META_STORE = 'meta';
+const DB_VERSION = 1;
+
+export const AUDIO_CACHE_MAX_BYTES = 200 * 1024 * 1024;
+
+interface AudioCacheMeta {
+  key: string;
+  size: number;
+  lastAccess: number;
+}
+
+const openDb = () => openIndexedDb(DB_NAME, DB_VERSION, db => {
+  db.createObjectStore(DATA_STORE);
+  db.createObjectStore(META_STORE, { keyPath: 'key' }).createIndex('lastAccess', 'lastAccess');
+});
+
+const openStores = async (mode: IDBTransactionMode) => {
+  const tx = (await openDb()).transaction([DATA_STORE, META_STORE], mode);
+  return { data: tx.objectStore(DATA_STORE), meta: tx.objectStore(META_STORE) };
+};
+
+export const ttsStorageKey = async (text: string): Promise<string> => {
+  try {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+    return `tts:${Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('')}`;
+  } catch (e) {
+    return `tts:${text}`;
+  }
+};
+
+export const driveCacheKey = (fileId: string) => `drive:${fileId}`;
+
+export const getCachedAudio = async (key: string): Promise<Uint8Array | null> => {
+  try {
+    const stores = await openStores('readwrite');
+    const data = await runRequest<ArrayBuffer | undefined>(stores.data.get(key));
+    if (!data) return null;
+    stores.meta.put({ key, size: data.byteLength, lastAccess: Date.now() } as AudioCacheMeta);
+    return new Uint8Array(data);
+  } catch (e) { return null; }
+};
+
+// 용량을 넘으면 가장 오래 쓰지 않은 항목부터 삭제
+const evictOverLimit = async () => {
+  const stores = await openStores('readwrite');
+  const metas = await runRequest<AudioCacheMeta[]>(stores.meta.index('lastAccess').getAll());
+  let total = metas.reduce((sum, m) => sum + m.size, 0);
+  for (const meta of metas) {
+    if (total <= AUDIO_CACHE_MAX_BYTES) break;
+    stores.data.delete(meta.key);
+    stores.meta.delete(meta.key);
+    total -= meta.size;
+  }
+};
+
+export const putCachedAudio = async (key: string, data: Uint8Array): Promise<void> => {
+  if (data.byteLength > AUDIO_CACHE_MAX_BYTES) return;
+  try {
+    const stores = await openStores('readwrite');
+    const copy = data.slice().buffer;
+    stores.data.put(copy, key);
+    await runRequest(stores.meta.put({ key, size: copy.byteLength, lastAccess: Date.now() } as AudioCacheMeta));
+    await evictOverLimit();
+  } catch (e) { console.error("Audio cache write fail", e); }
+};
+
+export const removeCachedAudio = async (key: string): Promise<void> => {
+  try {
+    const stores = await openStores('readwrite');
+    stores.data.delete(key);
+    await runRequest(stores.meta.delete(key));
+  } catch (e) {}
+};
+
+// 캐시에 있으면 바로 반환하고, 없으면 불러온 뒤 저장
+export const withAudioCache = async (key: string, loader: () => Promise<Uint8Array>): Promise<Uint8Array> => {
+  const cached = await getCachedAudio(key);
+  if (cached) return cached;
+  const data = await loader();
+  putCachedAudio(key, data);
+  return data;
+};
+
+export const getAudioCacheStats = async (): Promise<{ count: number, bytes: number }> => {
+  try {
+    const metas = await runRequest<AudioCacheMeta[]>((await openStores('readonly')).meta.getAll());
+    return { count: metas.length, bytes: metas.reduce((sum, m) => sum + m.size, 0) };
+  } catch (e) { return { count: 0, bytes: 0 }; }
+};
+
+export const clearAudioCache = async (): Promise<boolean> => {
+  try {
+    const stores = await openStores('readwrite');
+    stores.data.clear();
+    await runRequest(stores.meta.clear());
+    return true;
+  } catch (e) { return false; }
+};
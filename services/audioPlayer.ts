@@ -0,0 +1,33 @@
+export const PLAYBACK_RATES = [0.75, 1, 1.25];
+
+// A-B 구간이 너무 짧으면 반복이 끊겨 들리므로 최소 길이 보장
+export const MIN_LOOP_SEC = 0.5;
+
+// TTS 음성에는 문장 타임스탬프가 없으므로 글자 수 비율로 문장 시작 위치를 추정
+export const estimateSentenceOffsets = (sentences: string[], durationSec: number): number[] => {
+  const weights = sentences.map(s => s.length + 8); // 문장 사이 쉼 보정
+  const total = weights.reduce((a, b) => a + b, 0);
+  let acc = 0;
+  return weights.map(w => {
+    const offset = total > 0 ? (acc / total) * durationSec : 0;
+    acc += w;
+    return offset;
+  });
+};
+
+export const findSentenceAt = (offsets: number[], timeSec: number): number => {
+  let idx = -1;
+  offsets.forEach((offset, i) => { if (timeSec >= offset) idx = i; });
+  return idx;
+};
+
+export interface LoopRange {
+  a: number;
+  b: number;
+}
+
+export const normalizeLoop = (a: number, b: number, durationSec: number): LoopRange | null => {
+  const start = Math.max(0, Math.min(a, b));
+  const end = Math.min(durationSec, Math.max(a, b));
+  return end - start >= MIN_LOOP_SEC ? { a: start, b: end } : null;
+};
@@ -0,0 +1,57 @@
+import { OpicGrade, GradeConsensus } from '../types';
+import { AiSchema } from './ai';
+import { parseGrade, gradeRank, compareGrades, GRADE_PROMPT_LIST } from './grade';
+
+// 합의 채점: 같은 녹음을 여러 번 채점해 중앙값 등급을 사용
+export const CONSENSUS_SAMPLE_COUNT = 3;
+
+const CONSENSUS_STORAGE_KEY = 'opic_consensus_grading';
+
+export const loadConsensusMode = (): boolean => localStorage.getItem(CONSENSUS_STORAGE_KEY) === 'TRUE';
+
+export const saveConsensusMode = (enabled: boolean) => {
+  localStorage.setItem(CONSENSUS_STORAGE_KEY, enabled ? 'TRUE' : 'FALSE');
+};
+
+// 추가 샘플은 등급만 다시 판정 (모범답안 생성 없이 빠르게)
+export const GRADE_SAMPLE_SCHEMA: AiSchema = {
+  predictedLevel: { type: 'string', validate: (v) => !!parseGrade(v) }
+};
+
+export const buildGradeSamplePrompt = (question: string, sampleIndex: number): string =>
+  `You are an independent OPIc rater (rater #${sampleIndex}). Listen to the candidate's answer to the question "${question}" and judge it SOLELY by standard OPIc criteria: task completion, text type, fluency, accuracy, vocabulary and pronunciation.
+Output JSON: {"predictedLevel":string} where predictedLevel is exactly one of (${GRADE_PROMPT_LIST}).`;
+
+// 중앙값 등급과 신뢰도(중앙값과 일치한 샘플 비율)를 계산
+export const aggregateGrades = (samples: OpicGrade[]): GradeConsensus | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort(compareGrades);
+  // 짝수 개면 낮은 쪽 중앙값을 택해 등급을 보수적으로 판정
+  const level = sorted[Math.floor((sorted.length - 1) / 2)];
+  return {
+    level,
+    samples,
+    confidence: samples.filter(s => s === level).length / samples.length
+  };
+};
+
+export const getGradeSpread = (samples: OpicGrade[]): { min: OpicGrade, max: OpicGrade } | null => {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort(compareGrades);
+  return { min: sorted[0], max: sorted[sorted.length - 1] };
+};
+
+// 최저/최고 등급 차이가 2단계 이상이면 판정이 흔들린 것으로 봄
+export const isUnstableConsensus = (samples: OpicGrade[]): boolean => {
+  const spread = getGradeSpread(samples);
+  return !!spread && gradeRank(spread.max) - gradeRank(spread.min) >= 2;
+};
+
+// Study_Log 직렬화: "IM2,IM3,IM3"
+export const serializeGradeSamples = (samples?: OpicGrade[]): string => (samples || []).join(',');
+
+export const parseGradeSamples = (raw?: string): OpicGrade[] | undefined => {
+  if (!raw) return undefined;
+  const samples = raw.split(',').map(parseGrade).filter((g): g is OpicGrade => !!g);
+  return samples.length > 0 ? samples : undefined;
+};
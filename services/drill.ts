@@ -0,0 +1,105 @@
+import { DrillItem, DrillResult, DrillType, GrammarErrorCategory } from '../types';
+import { AiSchema } from './ai';
+import { GRAMMAR_ERROR_CATEGORIES, GRAMMAR_ERROR_CATEGORY_KEYS, MistakeSummary } from './grammar';
+
+export const DRILL_LOG_SHEET_NAME = 'Drill_Log';
+export const DRILL_LOG_HEADERS = ['Drill ID', 'Set ID', 'Date', 'Type', 'Category', 'Prompt', 'Answer', 'User Answer', 'Correct', 'Feedback'];
+
+export const DRILL_SET_SIZE = 6;
+// 드릴을 집중할 상위 실수 유형 수
+export const DRILL_TARGET_CATEGORY_COUNT = 3;
+const EXAMPLES_PER_CATEGORY = 3;
+
+export const DRILL_TYPES: DrillType[] = ['FILL_BLANK', 'TRANSFORM', 'SPEAK'];
+
+export const DRILL_TYPE_LABELS: Record<DrillType, string> = {
+  FILL_BLANK: '빈칸 채우기',
+  TRANSFORM: '문장 고쳐 쓰기',
+  SPEAK: '소리 내어 말하기'
+};
+
+export const DRILL_ITEM_SCHEMA: AiSchema = {
+  type: { type: 'string', validate: (v) => DRILL_TYPES.includes(v) },
+  category: { type: 'string' },
+  instruction: { type: 'string' },
+  prompt: { type: 'string', validate: (v) => v.trim().length > 0 },
+  answer: { type: 'string', validate: (v) => v.trim().length > 0 }
+};
+
+export const DRILL_GRADE_SCHEMA: AiSchema = {
+  correct: { type: 'boolean' },
+  feedback: { type: 'string' },
+  transcript: { type: 'string', optional: true }
+};
+
+// 최근에 자주 틀린 유형 우선, 같으면 전체 횟수 순 ('기타'는 다른 유형이 없을 때만)
+export const pickDrillTargets = (summaries: MistakeSummary[]): MistakeSummary[] => {
+  const ranked = [...summaries].sort((a, b) => b.recentCount - a.recentCount || b.count - a.count);
+  const specific = ranked.filter(s => s.category !== 'OTHER');
+  return (specific.length > 0 ? specific : ranked).slice(0, DRILL_TARGET_CATEGORY_COUNT);
+};
+
+export const buildDrillPrompt = (targets: MistakeSummary[]): string => {
+  const mistakes = targets.map(t => {
+    const examples = t.examples.slice(0, EXAMPLES_PER_CATEGORY).map(e => `  - "${e.original}" -> "${e.corrected}"`).join('\n');
+    return `${t.category} (${t.count} times)\n${examples}`;
+  }).join('\n');
+  return `You are an English grammar coach for a Korean OPIc learner. Create ${DRILL_SET_SIZE} short practice drills that target the learner's recurring mistakes below. Spread the drills across the categories and use each drill type (${DRILL_TYPES.join(', ')}) at least once.
+
+Learner's recurring mistakes (category, frequency, real examples):
+${mistakes}
+
+Drill types:
+- FILL_BLANK: "prompt" is one sentence with exactly one blank written as ___. "answer" is the word(s) for the blank; separate acceptable alternatives with "/".
+- TRANSFORM: "prompt" is a sentence containing the same kind of mistake. "answer" is the corrected sentence.
+- SPEAK: "prompt" is a correct, natural sentence the learner should say aloud. "answer" is the same sentence.
+
+Use everyday OPIc topics (home, hobbies, travel, work). Keep each sentence under 20 words. "category" must be one of (${GRAMMAR_ERROR_CATEGORY_KEYS.join(', ')}). "instruction" is one short KOREAN sentence telling the learner what to do.
+Output as JSON array: [{"type":string,"category":string,"instruction":string,"prompt":string,"answer":string}]`;
+};
+
+export const parseDrillItems = (raw: any[], setId: string): DrillItem[] =>
+  raw.slice(0, DRILL_SET_SIZE).map((d, i) => ({
+    id: `${setId}_${String(i + 1).padStart(2, '0')}`,
+    type: d.type,
+    category: GRAMMAR_ERROR_CATEGORY_KEYS.includes(d.category) ? d.category : 'OTHER',
+    instruction: d.instruction || DRILL_TYPE_LABELS[d.type as DrillType],
+    prompt: d.prompt.trim(),
+    answer: d.answer.trim()
+  }));
+
+const normalizeAnswer = (text: string) => text.toLowerCase().replace(/[^a-z0-9'\s]/g, '').replace(/\s+/g, ' ').trim();
+
+// 빈칸 문제는 AI 없이 바로 채점
+export const isFillBlankCorrect = (userAnswer: string, answer: string): boolean => {
+  const given = normalizeAnswer(userAnswer);
+  return !!given && answer.split('/').some(alt => normalizeAnswer(alt) === given);
+};
+
+export const buildTransformGradingPrompt = (item: DrillItem, userAnswer: string): string =>
+  `You are grading a grammar drill (${item.category}) for a Korean English learner.
+Original sentence with a mistake: "${item.prompt}"
+Reference correction: "${item.answer}"
+Learner's correction: "${userAnswer}"
+1. correct: true if the learner fixed the ${item.category} mistake and the sentence is grammatical (other valid wordings are fine), otherwise false.
+2. feedback: One short KOREAN sentence explaining what was right or what is still wrong.
+Output as JSON: {"correct":boolean,"feedback":string}`;
+
+export const buildSpeakGradingPrompt = (item: DrillItem): string =>
+  `The learner was asked to say this sentence aloud: "${item.prompt}"
+It practices ${item.category} (${GRAMMAR_ERROR_CATEGORIES[item.category]}).
+1. transcript: Exact verbatim transcription of the recording.
+2. correct: true if the learner said the sentence with the target grammar right (minor pronunciation slips are fine), otherwise false.
+3. feedback: One short KOREAN sentence about the grammar point and anything they changed or missed.
+Output as JSON: {"transcript":string,"correct":boolean,"feedback":string}`;
+
+export const parseDrillCorrect = (value: any): boolean => value === true || value === 'true';
+
+// 유형별 드릴 정답률
+export const summarizeDrillResults = (results: DrillResult[]): { category: GrammarErrorCategory, attempts: number, correct: number }[] =>
+  GRAMMAR_ERROR_CATEGORY_KEYS
+    .map(category => {
+      const inCategory = results.filter(r => r.category === category);
+      return { category, attempts: inCategory.length, correct: inCategory.filter(r => r.correct).length };
+    })
+    .filter(s => s.attempts > 0);
@@ -0,0 +1,23 @@
+// 실전 모드: 질문 텍스트를 숨기고 음성으로만 제시 (실제 시험은 질문이 끝난 뒤 5초 안에 1회 다시 듣기 가능)
+export const QUESTION_REPLAY_WINDOW_MS = 5000;
+
+const EXAM_REALISM_STORAGE_KEY = 'opic_exam_realism';
+
+// PLAYING → (재생 종료) REPLAY_WINDOW → (5초 경과) LOCKED
+//                                    → (다시 듣기) REPLAYING → LOCKED
+export type QuestionListeningPhase = 'PLAYING' | 'REPLAY_WINDOW' | 'REPLAYING' | 'LOCKED';
+
+export interface QuestionListeningState {
+  phase: QuestionListeningPhase;
+  replayed: boolean;
+}
+
+export const loadExamRealism = (): boolean => localStorage.getItem(EXAM_REALISM_STORAGE_KEY) === 'TRUE';
+
+export const saveExamRealism = (enabled: boolean) => {
+  localStorage.setItem(EXAM_REALISM_STORAGE_KEY, enabled ? 'TRUE' : 'FALSE');
+};
+
+// 질문 음성 재생이 끝났을 때의 다음 단계
+export const nextListeningPhaseOnEnd = (phase: QuestionListeningPhase): QuestionListeningPhase =>
+  phase === 'PLAYING' ? 'REPLAY_WINDOW' : phase === 'REPLAYING' ? 'LOCKED' : phase;
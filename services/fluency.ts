@@ -0,0 +1,134 @@
+import { FluencyMetrics } from '../types';
+
+// 무음 판정: 50ms 프레임 RMS가 기준 이하인 구간
+const FRAME_MS = 50;
+const MIN_SILENCE_RMS = 0.01;
+// 이 길이 이상 이어진 무음만 '멈춤'으로 집계
+export const PAUSE_THRESHOLD_MS = 700;
+
+// 순서가 곧 Study_Log 열 순서(AB~AJ)이므로 변경 금지
+export const FLUENCY_METRIC_KEYS: (keyof FluencyMetrics)[] = [
+  'wpm', 'wordCount', 'speakingSec', 'silenceSec', 'longestPauseSec', 'pauseCount', 'fillerCount', 'selfCorrectionCount', 'sentenceCount'
+];
+
+export const FLUENCY_METRIC_LABELS: Record<keyof FluencyMetrics, string> = {
+  wpm: '분당 단어 수',
+  wordCount: '단어 수',
+  speakingSec: '발화 시간(초)',
+  silenceSec: '무음 시간(초)',
+  longestPauseSec: '최장 멈춤(초)',
+  pauseCount: '멈춤 횟수',
+  fillerCount: '군말 횟수',
+  selfCorrectionCount: '자기 수정',
+  sentenceCount: '문장 수'
+};
+
+// "like"는 동사로도 쓰이므로 쉼표가 뒤따르는 군말 용법만 집계
+const FILLER_PATTERN = /\b(u+h+|u+m+|e+r+m*|a+h+|hmm+|you know)\b|\blike(?=\s*,)/gi;
+// "I mean", "sorry", "no wait" 등 말을 고치는 표현 + 같은 단어의 즉시 반복 ("I I went")
+const CORRECTION_PATTERN = /\b(i mean|sorry|no wait|let me rephrase|what i meant)\b/gi;
+const REPETITION_PATTERN = /\b(\w+)(?:[\s,]+\1\b)+/gi;
+
+interface SilenceProfile {
+  durationSec: number;
+  speakingSec: number;
+  silenceSec: number;
+  longestPauseSec: number;
+  pauseCount: number;
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+
+// 녹음 파일을 디코딩해 발화/무음 구간을 측정 (앞뒤 무음은 멈춤에서 제외)
+export const analyzeSilence = async (blob: Blob): Promise<SilenceProfile> => {
+  const ctx = new OfflineAudioContext(1, 1, 44100);
+  const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+  const data = buffer.getChannelData(0);
+  const frameSize = Math.max(1, Math.floor(buffer.sampleRate * FRAME_MS / 1000));
+
+  const rms: number[] = [];
+  for (let i = 0; i < data.length; i += frameSize) {
+    let sum = 0;
+    const end = Math.min(i + frameSize, data.length);
+    for (let j = i; j < end; j++) sum += data[j] * data[j];
+    rms.push(Math.sqrt(sum / (end - i)));
+  }
+
+  // 마이크 잡음 수준에 맞춰 기준을 조정 (하위 10% 프레임 평균의 2배)
+  const quietest = [...rms].sort((a, b) => a - b).slice(0, Math.max(1, Math.floor(rms.length / 10)));
+  const noiseFloor = quietest.reduce((a, b) => a + b, 0) / quietest.length;
+  const threshold = Math.max(MIN_SILENCE_RMS, noiseFloor * 2);
+  const voiced = rms.map(v => v > threshold);
+
+  const first = voiced.indexOf(true);
+  const last = voiced.lastIndexOf(true);
+  const durationSec = buffer.duration;
+  if (first === -1) {
+    return { durationSec: round1(durationSec), speakingSec: 0, silenceSec: round1(durationSec), longestPauseSec: 0, pauseCount: 0 };
+  }
+
+  let speakingFrames = 0;
+  let run = 0;
+  let longestRun = 0;
+  let pauseCount = 0;
+  const pauseFrames = Math.ceil(PAUSE_THRESHOLD_MS / FRAME_MS);
+  for (let i = first; i <= last; i++) {
+    if (voiced[i]) {
+      speakingFrames++;
+      if (run >= pauseFrames) pauseCount++;
+      run = 0;
+    } else {
+      run++;
+      longestRun = Math.max(longestRun, run);
+    }
+  }
+
+  const speakingSec = speakingFrames * FRAME_MS / 1000;
+  return {
+    durationSec: round1(durationSec),
+    speakingSec: round1(speakingSec),
+    silenceSec: round1(Math.max(0, durationSec - speakingSec)),
+    longestPauseSec: longestRun >= pauseFrames ? round1(longestRun * FRAME_MS / 1000) : 0,
+    pauseCount
+  };
+};
+
+export const analyzeTranscript = (transcript: string) => {
+  const text = transcript || "";
+  const words = text.match(/[A-Za-z']+/g) || [];
+  return {
+    wordCount: words.length,
+    fillerCount: (text.match(FILLER_PATTERN) || []).length,
+    selfCorrectionCount: (text.match(CORRECTION_PATTERN) || []).length + (text.match(REPETITION_PATTERN) || []).length,
+    sentenceCount: text.split(/[.!?]+/).filter(s => s.trim().split(/\s+/).length >= 2).length
+  };
+};
+
+// 녹음 무음 분석 + 전사 분석을 합쳐 유창성 지표 산출 (디코딩 실패 시 측정된 답변 시간으로 대체)
+export const computeFluencyMetrics = async (blob: Blob, transcript: string, answerDurationSec?: number): Promise<FluencyMetrics> => {
+  const text = analyzeTranscript(transcript);
+  let silence: SilenceProfile | null = null;
+  try { silence = await analyzeSilence(blob); } catch (e) { console.error("Silence analysis fail", e); }
+  const durationSec = silence?.durationSec || answerDurationSec || 0;
+  return {
+    wpm: durationSec > 0 ? Math.round(text.wordCount / (durationSec / 60)) : 0,
+    wordCount: text.wordCount,
+    speakingSec: silence?.speakingSec ?? durationSec,
+    silenceSec: silence?.silenceSec ?? 0,
+    longestPauseSec: silence?.longestPauseSec ?? 0,
+    pauseCount: silence?.pauseCount ?? 0,
+    fillerCount: text.fillerCount,
+    selfCorrectionCount: text.selfCorrectionCount,
+    sentenceCount: text.sentenceCount
+  };
+};
+
+export const fluencyToRowValues = (metrics?: FluencyMetrics): (number | string)[] =>
+  FLUENCY_METRIC_KEYS.map(key => metrics ? metrics[key] : "");
+
+export const rowValuesToFluency = (values: any[]): FluencyMetrics | undefined => {
+  if (values.length === 0 || values.every(v => v === undefined || v === "")) return undefined;
+  const metrics = {} as FluencyMetrics;
+  FLUENCY_METRIC_KEYS.forEach((key, i) => { metrics[key] = Number(values[i]) || 0; });
+  return metrics;
+};
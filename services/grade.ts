@@ -0,0 +1,38 @@
+import { OpicGrade } from '../types';
+
+// 낮은 등급 → 높은 등급 순서
+export const OPIC_GRADES: OpicGrade[] = ['NL', 'NM', 'NH', 'IL', 'IM1', 'IM2', 'IM3', 'IH', 'AL'];
+
+// 프롬프트에 넣을 등급 목록 (높은 등급부터)
+export const GRADE_PROMPT_LIST = [...OPIC_GRADES].reverse().join(', ');
+
+const GRADE_ALIASES: Record<string, OpicGrade> = {
+  'ADVANCEDLOW': 'AL',
+  'INTERMEDIATEHIGH': 'IH',
+  'INTERMEDIATEMID3': 'IM3',
+  'INTERMEDIATEMID2': 'IM2',
+  'INTERMEDIATEMID1': 'IM1',
+  'INTERMEDIATEMID': 'IM2',
+  'IM': 'IM2',
+  'INTERMEDIATELOW': 'IL',
+  'NOVICEHIGH': 'NH',
+  'NOVICEMID': 'NM',
+  'NOVICELOW': 'NL'
+};
+
+export const isOpicGrade = (value: any): value is OpicGrade => OPIC_GRADES.includes(value);
+
+// "IM 2", "Intermediate Mid", "Level: IH" 같은 표기를 정규 등급으로 변환 (인식 불가 시 null)
+export const parseGrade = (raw: any): OpicGrade | null => {
+  if (typeof raw !== 'string') return null;
+  const compact = raw.toUpperCase().replace(/LEVEL|[^A-Z0-9]/g, '');
+  if (isOpicGrade(compact)) return compact;
+  return GRADE_ALIASES[compact] || null;
+};
+
+export const gradeRank = (grade: OpicGrade): number => OPIC_GRADES.indexOf(grade);
+
+// a가 높으면 양수, 같으면 0, 낮으면 음수
+export const compareGrades = (a: OpicGrade, b: OpicGrade): number => gradeRank(a) - gradeRank(b);
+
+export const isGradeAtLeast = (grade: OpicGrade, target: OpicGrade): boolean => compareGrades(grade, target) >= 0;
@@ -0,0 +1,95 @@
+import { GrammarCorrection, GrammarErrorCategory, StudyLogEntry } from '../types';
+
+export const GRAMMAR_ERROR_CATEGORIES: Record<GrammarErrorCategory, string> = {
+  TENSE: '시제',
+  ARTICLE: '관사',
+  PREPOSITION: '전치사',
+  SUBJECT_VERB: '주어-동사 일치',
+  WORD_CHOICE: '어휘 선택',
+  OTHER: '기타'
+};
+
+export const GRAMMAR_ERROR_CATEGORY_KEYS = Object.keys(GRAMMAR_ERROR_CATEGORIES) as GrammarErrorCategory[];
+
+export const GRAMMAR_CORRECTIONS_INSTRUCTIONS = `corrections: List every grammar or word-choice error in the transcript, one item per error. "original" must quote the exact erroneous words from the transcript, "corrected" is the fixed version, "category" is one of (${GRAMMAR_ERROR_CATEGORY_KEYS.join(', ')}), and "explanation" is one short KOREAN sentence explaining the rule. Use an empty array if there are no errors.`;
+
+export const GRAMMAR_CORRECTIONS_SCHEMA = `"corrections":[{"original":string,"corrected":string,"category":string,"explanation":string}]`;
+
+const parseCategory = (raw: any): GrammarErrorCategory => {
+  const key = typeof raw === 'string' ? raw.toUpperCase().replace(/[^A-Z]+/g, '_').replace(/^_|_$/g, '') : '';
+  if (GRAMMAR_ERROR_CATEGORY_KEYS.includes(key as GrammarErrorCategory)) return key as GrammarErrorCategory;
+  if (/AGREEMENT/.test(key)) return 'SUBJECT_VERB';
+  if (/VOCAB|WORD/.test(key)) return 'WORD_CHOICE';
+  return 'OTHER';
+};
+
+export const parseGrammarCorrections = (raw: any): GrammarCorrection[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter(c => c && typeof c.original === 'string' && c.original.trim() && typeof c.corrected === 'string')
+    .map(c => ({
+      original: c.original.trim(),
+      corrected: c.corrected.trim(),
+      explanation: c.explanation || "",
+      category: parseCategory(c.category)
+    }));
+};
+
+// Study_Log 저장용 JSON
+export const serializeGrammarCorrections = (corrections?: GrammarCorrection[]): string =>
+  corrections ? JSON.stringify(corrections) : "";
+
+export const deserializeGrammarCorrections = (raw?: string): GrammarCorrection[] | undefined => {
+  if (!raw) return undefined;
+  try { return parseGrammarCorrections(JSON.parse(raw)); } catch (e) { return undefined; }
+};
+
+// --- 세션 간 반복 실수 집계 ---
+export interface MistakeExample extends GrammarCorrection {
+  sessionId: string;
+  date: string;
+}
+
+export interface MistakeSummary {
+  category: GrammarErrorCategory;
+  count: number;
+  sessionCount: number;      // 해당 실수가 나온 세션 수
+  recentCount: number;       // 최근 세션에서의 횟수
+  examples: MistakeExample[]; // 최신순
+}
+
+// 최근 추세 판단에 쓰는 세션 수
+export const RECENT_SESSION_WINDOW = 10;
+
+// logs는 시트 순서(오래된 순)
+export const aggregateMistakes = (logs: StudyLogEntry[]): MistakeSummary[] => {
+  const graded = logs.filter(l => l.grammarCorrections);
+  const recentIds = new Set(graded.slice(-RECENT_SESSION_WINDOW).map(l => l.sessionId));
+  const summaries = new Map<GrammarErrorCategory, MistakeSummary>();
+
+  graded.forEach(log => {
+    const seen = new Set<GrammarErrorCategory>();
+    log.grammarCorrections!.forEach(c => {
+      const summary = summaries.get(c.category) || { category: c.category, count: 0, sessionCount: 0, recentCount: 0, examples: [] };
+      summary.count++;
+      if (recentIds.has(log.sessionId)) summary.recentCount++;
+      if (!seen.has(c.category)) { summary.sessionCount++; seen.add(c.category); }
+      summary.examples.unshift({ ...c, sessionId: log.sessionId, date: log.date });
+      summaries.set(c.category, summary);
+    });
+  });
+
+  return [...summaries.values()].sort((a, b) => b.count - a.count);
+};
+
+// 자주 틀린 표현 (같은 original이 여러 세션에서 반복된 경우)
+export const findRepeatedPhrases = (summary: MistakeSummary): { original: string, corrected: string, times: number }[] => {
+  const byPhrase = new Map<string, { original: string, corrected: string, times: number }>();
+  summary.examples.forEach(e => {
+    const key = e.original.toLowerCase();
+    const entry = byPhrase.get(key) || { original: e.original, corrected: e.corrected, times: 0 };
+    entry.times++;
+    byPhrase.set(key, entry);
+  });
+  return [...byPhrase.values()].filter(p => p.times > 1).sort((a, b) => b.times - a.times);
+};
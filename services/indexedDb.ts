@@ -0,0 +1,23 @@
+// 오디오 캐시/분석 작업 등 브라우저 로컬 저장소 공통 유틸
+const dbPromises = new Map<string, Promise<IDBDatabase>>();
+
+export const openIndexedDb = (name: string, version: number, upgrade: (db: IDBDatabase) => void): Promise<IDBDatabase> => {
+  let dbPromise = dbPromises.get(name);
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const req = indexedDB.open(name, version);
+      req.onupgradeneeded = () => upgrade(req.result);
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    dbPromises.set(name, dbPromise);
+    dbPromise.catch(() => { dbPromises.delete(name); });
+  }
+  return dbPromise;
+};
+
+export const runRequest = <T>(req: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
@@ -0,0 +1,89 @@
+// 녹음 입력 레벨 측정, 마이크 보정, 무음 녹음 차단
+export const DEFAULT_RECORDING_GAIN = 2.5;
+const MIN_RECORDING_GAIN = 1;
+const MAX_RECORDING_GAIN = 8;
+// 보정 시 말소리 최고치가 이 정도에 오도록 증폭 (클리핑 여유 확보)
+const CALIBRATION_TARGET_PEAK = 0.6;
+export const CALIBRATION_DURATION_MS = 4000;
+export const CALIBRATION_SENTENCE = "I usually go for a walk in the park near my house on weekends.";
+
+export const CLIPPING_PEAK = 0.98;
+export const TOO_QUIET_RMS = 0.01;
+// 문장 사이 쉬는 시간은 정상이므로 이 시간 이상 조용할 때만 경고
+export const TOO_QUIET_WARN_MS = 3000;
+
+// 이 정도 레벨을 넘는 구간이 1초도 안 되면 무음 녹음으로 간주
+const VOICED_FRAME_RMS = 0.02;
+const MIN_VOICED_SEC = 1;
+// 단어/짧은 문장 녹음은 말소리 구간 자체가 짧으므로 기준을 낮춤
+export const SHORT_CLIP_MIN_VOICED_SEC = 0.2;
+
+export const SILENT_RECORDING_MESSAGE = "녹음에서 목소리가 거의 감지되지 않았습니다. 마이크를 확인하고 다시 녹음해 주세요.";
+
+const RECORDING_GAIN_STORAGE_KEY = 'opic_recording_gain';
+
+export interface InputLevel {
+  rms: number;
+  peak: number;
+}
+
+export type InputLevelWarning = 'CLIPPING' | 'TOO_QUIET';
+
+export const INPUT_LEVEL_WARNINGS: Record<InputLevelWarning, string> = {
+  CLIPPING: '소리가 너무 커서 찢어지고 있어요. 마이크에서 조금 떨어지세요.',
+  TOO_QUIET: '목소리가 잘 들리지 않아요. 마이크에 가까이 말해주세요.'
+};
+
+// 보정한 적이 없으면 null (첫 녹음 전에 보정 단계를 보여줌)
+export const loadCalibratedGain = (): number | null => {
+  const saved = Number(localStorage.getItem(RECORDING_GAIN_STORAGE_KEY));
+  return saved >= MIN_RECORDING_GAIN && saved <= MAX_RECORDING_GAIN ? saved : null;
+};
+
+export const loadRecordingGain = (): number => loadCalibratedGain() ?? DEFAULT_RECORDING_GAIN;
+
+export const saveRecordingGain = (gain: number) => {
+  localStorage.setItem(RECORDING_GAIN_STORAGE_KEY, String(gain));
+};
+
+export const readInputLevel = (analyser: AnalyserNode, samples: Float32Array<ArrayBuffer>): InputLevel => {
+  analyser.getFloatTimeDomainData(samples);
+  let sum = 0;
+  let peak = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const v = Math.abs(samples[i]);
+    sum += v * v;
+    if (v > peak) peak = v;
+  }
+  return { rms: Math.sqrt(sum / samples.length), peak };
+};
+
+// 보정은 증폭 없이(gain 1) 측정한 프레임별 최고치 기준 (순간 잡음에 흔들리지 않게 상위 5%는 제외)
+export const computeCalibratedGain = (framePeaks: number[]): number => {
+  const sorted = [...framePeaks].sort((a, b) => a - b);
+  const measuredPeak = sorted[Math.floor(sorted.length * 0.95)] || 0;
+  if (measuredPeak <= 0) return MAX_RECORDING_GAIN;
+  const gain = CALIBRATION_TARGET_PEAK / measuredPeak;
+  return Math.round(Math.min(MAX_RECORDING_GAIN, Math.max(MIN_RECORDING_GAIN, gain)) * 10) / 10;
+};
+
+// 업로드/채점 전에 녹음 전체를 디코딩해 말소리가 있는지 확인
+export const isNearSilentRecording = async (blob: Blob, minVoicedSec: number = MIN_VOICED_SEC): Promise<boolean> => {
+  const ctx = new AudioContext();
+  try {
+    const buffer = await ctx.decodeAudioData(await blob.arrayBuffer());
+    const data = buffer.getChannelData(0);
+    const frameSize = Math.floor(buffer.sampleRate / 20);
+    let voicedFrames = 0;
+    for (let start = 0; start + frameSize <= data.length; start += frameSize) {
+      let sum = 0;
+      for (let i = start; i < start + frameSize; i++) sum += data[i] * data[i];
+      if (Math.sqrt(sum / frameSize) >= VOICED_FRAME_RMS) voicedFrames++;
+    }
+    return (voicedFrames * frameSize) / buffer.sampleRate < minVoicedSec;
+  } catch (e) {
+    // 디코딩이 안 되는 환경에서는 막지 않음
+    console.error("Silence check fail", e);
+    return false;
+  } finally { ctx.close(); }
+};
@@ -0,0 +1,104 @@
+import { MockExamSlotKind, QuestionDbEntry, SurveyData, UnitProgress } from '../types';
+import { buildSelfAssessmentContext } from './selfAssessment';
+
+export const MOCK_EXAM_QUESTION_COUNT = 15;
+
+export const MOCK_EXAM_SLOT_LABELS: Record<MockExamSlotKind, string> = {
+  SELF_INTRO: '자기소개',
+  SURVEY_COMBO: '선택 주제 콤보',
+  UNEXPECTED_COMBO: '돌발 주제 콤보',
+  ROLE_PLAY: '롤플레이',
+  ADVANCED: '비교/사회 이슈'
+};
+
+export interface MockExamSlot {
+  number: number;
+  kind: MockExamSlotKind;
+  role: string;      // 해당 문항에서 요구하는 답변 유형 (묘사, 루틴, 경험 등)
+  topic: string;
+  essence?: string;
+  fullId?: string;
+}
+
+const COMBO_ROLES = ['Description (describe the place/thing/person)', 'Routine or habit', 'Memorable past experience'];
+const ROLE_PLAY_ROLES = ['Ask the examiner 3-4 questions about the situation', 'Explain a problem and offer 2-3 alternatives', 'Share a related past experience'];
+const ADVANCED_ROLES = ['Compare past and present / describe changes', 'Discuss a related social issue or news'];
+
+const pickRandom = <T>(list: T[]): T | undefined => list[Math.floor(Math.random() * list.length)];
+
+const shuffle = <T>(list: T[]): T[] => {
+  const copy = [...list];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Question_DB의 대분류/유형공략명/주제 텍스트로 모의고사 문항 유형을 추정
+export const classifyQuestionRow = (q: QuestionDbEntry): MockExamSlotKind | null => {
+  const text = `${q.category} ${q.strategy} ${q.topic}`;
+  if (/자기소개|self.?intro/i.test(text)) return 'SELF_INTRO';
+  if (/롤플|role.?play/i.test(text)) return 'ROLE_PLAY';
+  if (/돌발|unexpected/i.test(text)) return 'UNEXPECTED_COMBO';
+  if (/비교|이슈|compar|issue/i.test(text)) return 'ADVANCED';
+  return null;
+};
+
+/**
+ * 실제 OPIc 15문항 구성(1 자기소개, 2-4/5-7 선택 주제 콤보, 8-10 돌발 콤보, 11-13 롤플레이, 14-15 비교/이슈)에 맞춰
+ * Question_DB와 사용자 커리큘럼(서베이 기반 Progress)에서 문항별 출제 근거를 뽑는다.
+ */
+export const buildMockExamBlueprint = (questionDb: QuestionDbEntry[], units: UnitProgress[], survey?: SurveyData): MockExamSlot[] => {
+  const unitIds = new Set(units.map(u => u.fullId));
+  const rowsByKind = (kind: MockExamSlotKind) => questionDb.filter(q => classifyQuestionRow(q) === kind);
+
+  const surveyRows = questionDb.filter(q =>
+    unitIds.has(q.fullId) && q.unitId !== 'STRATEGY' && q.triggerId.toUpperCase() !== 'ALL' && !classifyQuestionRow(q)
+  );
+  const surveyTopics = shuffle(Array.from(new Set(surveyRows.map(q => q.topic))));
+  const fallbackTopics = shuffle(survey?.activities || []);
+  const comboTopics = [surveyTopics[0] || fallbackTopics[0] || 'Free time', surveyTopics[1] || fallbackTopics[1] || 'Home'];
+
+  const unexpectedRow = pickRandom(rowsByKind('UNEXPECTED_COMBO').filter(q => !comboTopics.includes(q.topic)));
+  const rolePlayRow = pickRandom(rowsByKind('ROLE_PLAY'));
+  const advancedRow = pickRandom(rowsByKind('ADVANCED'));
+  const introRow = pickRandom(rowsByKind('SELF_INTRO'));
+
+  const slots: MockExamSlot[] = [];
+  const push = (kind: MockExamSlotKind, role: string, topic: string, row?: QuestionDbEntry) => {
+    slots.push({ number: slots.length + 1, kind, role, topic, essence: row?.essence, fullId: row?.fullId });
+  };
+  const rowsForTopic = (topic: string) => surveyRows.filter(q => q.topic === topic);
+
+  push('SELF_INTRO', 'Self-introduction', introRow?.topic || 'Self-introduction', introRow);
+  comboTopics.forEach(topic => {
+    const rows = rowsForTopic(topic);
+    COMBO_ROLES.forEach((role, i) => push('SURVEY_COMBO', role, topic, rows[i]));
+  });
+  const unexpectedTopic = unexpectedRow?.topic || 'Technology';
+  COMBO_ROLES.forEach(role => push('UNEXPECTED_COMBO', role, unexpectedTopic, unexpectedRow));
+  const rolePlayTopic = rolePlayRow?.topic || comboTopics[0];
+  ROLE_PLAY_ROLES.forEach(role => push('ROLE_PLAY', role, rolePlayTopic, rolePlayRow));
+  const advancedTopic = advancedRow?.topic || unexpectedTopic;
+  ADVANCED_ROLES.forEach(role => push('ADVANCED', role, advancedTopic, advancedRow));
+
+  return slots;
+};
+
+export const buildMockExamPrompt = (slots: MockExamSlot[], survey?: SurveyData): string => {
+  const profile = survey
+    ? `Candidate background survey - Job: ${survey.job || 'N/A'}, Student: ${survey.studentStatus || 'N/A'}, Residence: ${survey.residence || 'N/A'}, Activities: ${survey.activities.join(', ') || 'N/A'}.`
+    : '';
+  const lines = slots.map(s =>
+    `Q${s.number} [${MOCK_EXAM_SLOT_LABELS[s.kind]}] Topic: ${s.topic}. Task: ${s.role}.${s.essence ? ` Hint: ${s.essence}.` : ''}`
+  ).join('\n');
+  return `As an OPIc expert examiner (Ava), write a complete ${MOCK_EXAM_QUESTION_COUNT}-question OPIc mock test following this exact blueprint.
+Questions in the same combo must be linked to the same topic. Role-play questions must describe the situation as the examiner would say it.
+${profile}
+${buildSelfAssessmentContext(survey?.selfAssessment)}
+
+${lines}
+
+Output JSON array: [{"number":number,"type":string,"question":string,"description":string}]`;
+};
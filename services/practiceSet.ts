@@ -0,0 +1,38 @@
+import { DifficultyAdjustment, QuestionDbEntry } from '../types';
+import { classifyQuestionRow } from './mockExam';
+
+// 실제 시험처럼 한 세트 15문항, 7번 문항 이후 난이도 재조정
+export const PRACTICE_SET_SIZE = 15;
+export const RELEVEL_AFTER = 7;
+
+export const DIFFICULTY_ADJUSTMENT_LABELS: Record<DifficultyAdjustment, string> = {
+  EASIER: '쉬운 질문',
+  SAME: '비슷한 질문',
+  HARDER: '어려운 질문'
+};
+
+export const buildAdjustmentContext = (adjustment: DifficultyAdjustment | null): string => {
+  if (adjustment === 'EASIER') return "The candidate asked for EASIER questions for the rest of the set: keep it to one clear task about familiar, concrete situations.";
+  if (adjustment === 'HARDER') return "The candidate asked for HARDER questions for the rest of the set: require multi-part answers, narration across tenses, opinions and comparisons.";
+  if (adjustment === 'SAME') return "Keep the same difficulty as the first half of the set.";
+  return "";
+};
+
+/**
+ * 재조정된 난이도에 맞춰 Question_DB에서 출제 유형을 다시 고른다.
+ * 어렵게: 롤플레이/비교·이슈 유형 위주, 쉽게: 같은 주제의 일반(묘사/루틴) 유형 위주.
+ */
+export const pickAdjustedQuestionRow = (
+  questionDb: QuestionDbEntry[],
+  base: QuestionDbEntry | undefined,
+  adjustment: DifficultyAdjustment | null
+): QuestionDbEntry | undefined => {
+  if (!adjustment || adjustment === 'SAME') return base;
+  const pool = questionDb.filter(q => {
+    const kind = classifyQuestionRow(q);
+    if (adjustment === 'HARDER') return kind === 'ROLE_PLAY' || kind === 'ADVANCED';
+    return !kind && q.unitId !== 'STRATEGY' && (!base || q.topic === base.topic);
+  });
+  if (pool.length === 0) return base;
+  return pool[Math.floor(Math.random() * pool.length)];
+};
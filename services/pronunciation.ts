@@ -0,0 +1,49 @@
+import { PronunciationIssue } from '../types';
+import { AiSchema } from './ai';
+
+export const MAX_PRONUNCIATION_ISSUES = 8;
+// 타임스탬프 클릭 시 재생할 내 녹음 구간 (추정 오차를 감안해 앞뒤 여유)
+export const SEGMENT_LEAD_SEC = 0.4;
+export const SEGMENT_LENGTH_SEC = 1.8;
+
+export const PRONUNCIATION_INSTRUCTIONS = `pronunciation: Listen to the audio and list up to ${MAX_PRONUNCIATION_ISSUES} words or short phrases the speaker clearly mispronounced (wrong stress, wrong vowel/consonant, dropped sounds). For each item, "word" is the intended English word/phrase as spelled, "startSec" is the approximate time in seconds from the start of the recording where it is spoken, "heard" is how it actually sounded (simple respelling), and "tip" is one short KOREAN sentence on how to fix it. Use an empty array if the pronunciation is clear.`;
+
+export const PRONUNCIATION_SCHEMA = `"pronunciation":[{"word":string,"startSec":number,"heard":string,"tip":string}]`;
+
+export const WORD_CHECK_SCHEMA: AiSchema = {
+  heard: { type: 'string' },
+  passed: { type: 'boolean' },
+  feedback: { type: 'string' }
+};
+
+export const buildWordCheckPrompt = (issue: PronunciationIssue): string =>
+  `The learner is re-recording ONE English word/phrase to fix their pronunciation.
+Target: "${issue.word}"
+Previous attempt sounded like: "${issue.heard}"
+1. heard: How the word sounds in this recording (simple respelling).
+2. passed: true if a native listener would clearly understand it as "${issue.word}" with the correct stress, otherwise false.
+3. feedback: One short KOREAN sentence on what improved or what is still off.
+Output as JSON: {"heard":string,"passed":boolean,"feedback":string}`;
+
+export const parsePronunciationIssues = (raw: any): PronunciationIssue[] | undefined => {
+  if (!Array.isArray(raw)) return undefined;
+  return raw
+    .filter(p => p && typeof p.word === 'string' && p.word.trim())
+    .slice(0, MAX_PRONUNCIATION_ISSUES)
+    .map(p => ({
+      word: p.word.trim(),
+      startSec: Math.max(0, Number(p.startSec) || 0),
+      heard: p.heard || "",
+      tip: p.tip || ""
+    }))
+    .sort((a, b) => a.startSec - b.startSec);
+};
+
+// Study_Log 저장용 JSON
+export const serializePronunciationIssues = (issues?: PronunciationIssue[]): string =>
+  issues ? JSON.stringify(issues) : "";
+
+export const deserializePronunciationIssues = (raw?: string): PronunciationIssue[] | undefined => {
+  if (!raw) return undefined;
+  try { return parsePronunciationIssues(JSON.parse(raw)); } catch (e) { return undefined; }
+};
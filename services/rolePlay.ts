@@ -0,0 +1,68 @@
+import { RolePlayType, RolePlayRubric } from '../types';
+
+export interface RolePlayTypeInfo {
+  number: number;        // 실제 시험 문항 번호
+  label: string;
+  scenarioGuide: string; // Ava가 상황을 제시할 때의 지침
+  criteria: string[];    // 롤플레이 전용 채점 기준
+}
+
+export const ROLE_PLAY_TYPES: Record<RolePlayType, RolePlayTypeInfo> = {
+  ASK_QUESTIONS: {
+    number: 11,
+    label: '질문하기',
+    scenarioGuide: "Set up a situation and ask the candidate to call/visit someone (or ask Ava directly) and ask 3-4 questions to get the information they need.",
+    criteria: [
+      "Asks 3-4 distinct, relevant questions",
+      "Uses varied question forms (yes/no, wh-, indirect questions)",
+      "Opens and closes the conversation naturally (greeting, purpose, thanks)"
+    ]
+  },
+  SOLVE_PROBLEM: {
+    number: 12,
+    label: '문제 해결',
+    scenarioGuide: "Present an unexpected problem related to the previous situation and ask the candidate to explain it to the person involved and offer 2-3 alternatives.",
+    criteria: [
+      "Explains the problem clearly with context",
+      "Offers 2-3 concrete alternatives or solutions",
+      "Uses polite persuasion and apology expressions appropriately"
+    ]
+  },
+  RELATED_EXPERIENCE: {
+    number: 13,
+    label: '관련 경험',
+    scenarioGuide: "Ask the candidate whether they have had a similar experience and to describe it in detail: what happened, how they dealt with it and how it ended.",
+    criteria: [
+      "Narrates a specific past experience in logical order",
+      "Controls past tenses consistently",
+      "Explains how the problem was resolved and how they felt"
+    ]
+  }
+};
+
+export const buildRolePlayScenarioPrompt = (type: RolePlayType, topic: string, essence?: string, extraContext: string = ""): string => {
+  const info = ROLE_PLAY_TYPES[type];
+  return `You are Ava, the OPIc examiner. Create a role-play question of type ${info.number} (${info.label}) about the topic "${topic}"${essence ? ` (${essence})` : ""}.
+${info.scenarioGuide}
+Write "question" exactly as Ava would say it aloud to the candidate (second person, natural spoken English, starting with "I'd like you to act out a situation." when appropriate).
+Write "description" as a short Korean summary of the situation. ${extraContext}
+Output JSON: {"unit":string,"type":string,"question":string,"description":string}`;
+};
+
+export const buildRolePlayGradingInstructions = (type: RolePlayType): string => {
+  const info = ROLE_PLAY_TYPES[type];
+  return `This answer is an OPIc role-play (question type ${info.number}: ${info.label}). In addition to the standard criteria, evaluate it with these role-play criteria:
+${info.criteria.map((c, i) => `${i + 1}. ${c}`).join('\n')}
+rolePlayRubric: For each role-play criterion give a score from 1 to 5 and a short KOREAN comment, plus a one-sentence KOREAN summary.`;
+};
+
+export const ROLE_PLAY_RUBRIC_SCHEMA = `"rolePlayRubric":{"criteria":[{"name":string,"score":number,"comment":string}],"summary":string}`;
+
+export const parseRolePlayRubric = (raw?: string): RolePlayRubric | undefined => {
+  if (!raw) return undefined;
+  try {
+    const data = JSON.parse(raw);
+    if (!Array.isArray(data?.criteria)) return undefined;
+    return data;
+  } catch (e) { return undefined; }
+};
@@ -0,0 +1,64 @@
+import { AnswerRubric, RubricCriterionKey } from '../types';
+
+export interface RubricCriterionInfo {
+  label: string;  // 화면 표시용 (한글)
+  guide: string;  // 채점 프롬프트용 기준 설명
+}
+
+export const RUBRIC_MAX_SCORE = 5;
+
+// 순서가 곧 Study_Log 열 순서(S~X)이므로 변경 금지
+export const RUBRIC_CRITERIA: Record<RubricCriterionKey, RubricCriterionInfo> = {
+  TASK_COMPLETION: { label: '과제 수행', guide: "Did the answer fully address every part of the question (description, sequence, past experience, comparison...)?" },
+  TEXT_TYPE: { label: '문장 구성력', guide: "Text type and sentence complexity: words/phrases vs. sentences vs. connected paragraphs with connectors and subordinate clauses." },
+  FLUENCY: { label: '유창성', guide: "Speech flow: hesitation, long pauses, self-corrections and filler words." },
+  ACCURACY: { label: '문법 정확도', guide: "Grammar accuracy: tense control, subject-verb agreement, articles, prepositions." },
+  VOCABULARY: { label: '어휘 다양성', guide: "Vocabulary range: variety, precision and natural idiomatic expressions beyond basic words." },
+  PRONUNCIATION: { label: '발음', guide: "Pronunciation and intonation: intelligibility, word stress and natural rhythm." }
+};
+
+export const RUBRIC_CRITERION_KEYS = Object.keys(RUBRIC_CRITERIA) as RubricCriterionKey[];
+
+export const buildRubricInstructions = (): string => `rubric: Score the answer on each criterion from 1 to ${RUBRIC_MAX_SCORE}. For every criterion, "evidence" must quote the exact words from the transcript that justify the score, and "comment" must explain in KOREAN what is missing for a higher score. The scores must be consistent with predictedLevel.
+${RUBRIC_CRITERION_KEYS.map(key => `- ${key}: ${RUBRIC_CRITERIA[key].guide}`).join('\n')}`;
+
+export const RUBRIC_SCHEMA = `"rubric":{${RUBRIC_CRITERION_KEYS.map(key => `"${key}":{"score":number,"evidence":string,"comment":string}`).join(',')}}`;
+
+// AI 응답을 정규화 (점수는 1~5 정수, 누락 항목은 제외)
+export const parseRubric = (raw: any): AnswerRubric | undefined => {
+  if (!raw || typeof raw !== 'object') return undefined;
+  const rubric: AnswerRubric = {};
+  RUBRIC_CRITERION_KEYS.forEach(key => {
+    const item = raw[key];
+    const score = Number(item?.score);
+    if (!item || isNaN(score)) return;
+    rubric[key] = {
+      score: Math.min(RUBRIC_MAX_SCORE, Math.max(1, Math.round(score))),
+      evidence: item.evidence || "",
+      comment: item.comment || ""
+    };
+  });
+  return Object.keys(rubric).length > 0 ? rubric : undefined;
+};
+
+// Study_Log: 항목별 점수 6열 + 근거/코멘트 JSON 1열
+export const rubricToRowValues = (rubric?: AnswerRubric): (number | string)[] => {
+  const details: Record<string, { evidence: string, comment: string }> = {};
+  RUBRIC_CRITERION_KEYS.forEach(key => {
+    if (rubric?.[key]) details[key] = { evidence: rubric[key]!.evidence, comment: rubric[key]!.comment };
+  });
+  return [
+    ...RUBRIC_CRITERION_KEYS.map(key => rubric?.[key]?.score ?? ""),
+    rubric ? JSON.stringify(details) : ""
+  ];
+};
+
+export const rowValuesToRubric = (scores: any[], detailsRaw?: string): AnswerRubric | undefined => {
+  let details: Record<string, { evidence?: string, comment?: string }> = {};
+  try { details = detailsRaw ? JSON.parse(detailsRaw) : {}; } catch (e) {}
+  const raw: Record<string, any> = {};
+  RUBRIC_CRITERION_KEYS.forEach((key, i) => {
+    if (scores[i] !== undefined && scores[i] !== "") raw[key] = { score: scores[i], ...details[key] };
+  });
+  return parseRubric(raw);
+};
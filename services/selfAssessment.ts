@@ -0,0 +1,58 @@
+// 서베이 시트(Survey 탭)에 자가평가 결과를 기록할 때 사용하는 질문 ID
+export const SELF_ASSESSMENT_QUESTION_ID = 'SA';
+
+export interface SelfAssessmentLevel {
+  level: number;
+  description: string;   // 실제 OPIc 자가평가 문항 (한글)
+  targetGrade: string;   // 해당 난이도에서 목표로 하는 등급
+  questionGuide: string; // 질문 생성 시 난이도 가이드
+}
+
+export const SELF_ASSESSMENT_LEVELS: SelfAssessmentLevel[] = [
+  {
+    level: 1,
+    description: "나는 10단어 이하의 단어로 말할 수 있습니다.",
+    targetGrade: "NH",
+    questionGuide: "Use very short, simple questions about concrete everyday things. Avoid combo follow-ups and role-play."
+  },
+  {
+    level: 2,
+    description: "나는 기본적인 물건, 색깔, 요일, 음식, 의류, 숫자 등을 말할 수 있습니다. 항상 완벽한 문장을 구사하지는 못하고 간단한 질문도 하기 어렵습니다.",
+    targetGrade: "IL",
+    questionGuide: "Use simple present-tense description questions about familiar topics with one clear task."
+  },
+  {
+    level: 3,
+    description: "나는 나 자신, 직장, 친한 사람과 장소, 일상에 대한 기본적인 정보를 간단한 문장으로 전달할 수 있습니다. 간단한 질문을 할 수 있습니다.",
+    targetGrade: "IM2",
+    questionGuide: "Use description and routine questions on familiar topics. Keep past-experience questions straightforward."
+  },
+  {
+    level: 4,
+    description: "나는 나 자신, 일상, 일/학교와 취미에 대해 간단한 대화를 할 수 있습니다. 친숙한 주제와 일상에 대해 일련의 간단한 문장들을 쉽게 만들어 낼 수 있고, 원하는 것을 얻기 위한 질문도 할 수 있습니다.",
+    targetGrade: "IM3",
+    questionGuide: "Mix description, routine and past-experience questions. Include simple role-play situations."
+  },
+  {
+    level: 5,
+    description: "나는 친숙한 주제와 가정, 일/학교, 개인 및 사회적 관심사에 대해 대화할 수 있습니다. 일어난 일과 일어나고 있는 일, 일어날 일에 대해 합리적인 자신감을 가지고 말할 수 있고, 예기치 못한 상황에도 임기응변으로 대처할 수 있습니다.",
+    targetGrade: "IH",
+    questionGuide: "Use multi-part questions requiring narration across tenses, problem-solving role-plays and comparisons."
+  },
+  {
+    level: 6,
+    description: "나는 개인적, 사회적 또는 전문적 주제에 나의 의견을 제시하여 토론할 수 있습니다. 다양하고 어려운 주제에 대해 정확하고 세부적으로 설명할 수 있습니다.",
+    targetGrade: "AL",
+    questionGuide: "Use demanding multi-part questions: comparisons of past and present, social issues, opinions with justification and complex role-play problems."
+  }
+];
+
+export const getSelfAssessmentLevel = (level?: number): SelfAssessmentLevel | undefined =>
+  SELF_ASSESSMENT_LEVELS.find(l => l.level === level);
+
+// 질문 생성/채점 프롬프트에 덧붙이는 난이도 컨텍스트
+export const buildSelfAssessmentContext = (level?: number): string => {
+  const info = getSelfAssessmentLevel(level);
+  if (!info) return "";
+  return `The candidate chose self-assessment level ${info.level} of 6 (target grade: ${info.targetGrade}). ${info.questionGuide}`;
+};
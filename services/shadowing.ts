@@ -0,0 +1,102 @@
+import { ShadowingProgress } from '../types';
+import { AiSchema } from './ai';
+import { splitSentences, sentenceSimilarity } from './textDiff';
+
+export type ShadowingPart = 'intro' | 'body' | 'conclusion';
+
+export interface ShadowingSentence {
+  part: ShadowingPart;
+  text: string;
+}
+
+export const SHADOWING_PART_LABELS: Record<ShadowingPart, string> = {
+  intro: 'Intro',
+  body: 'Body',
+  conclusion: 'Conclusion'
+};
+
+// 이 일치율 이상이면 해당 문장 통과
+export const SHADOWING_PASS_SCORE = 80;
+
+export const SHADOWING_TRANSCRIPT_SCHEMA: AiSchema = {
+  transcript: { type: 'string' }
+};
+
+export const SHADOWING_TRANSCRIPT_PROMPT = `Transcribe the English speech in this recording exactly as spoken. Do not fix grammar or fill in missing words.
+Output as JSON: {"transcript":string}`;
+
+// 모범답안 파트(intro/body/conclusion)를 다시 문장 단위로 분할
+export const buildShadowingSentences = (parts: Record<ShadowingPart, string> | undefined, correction: string): ShadowingSentence[] => {
+  if (!parts) return splitSentences(correction).map(text => ({ part: 'body', text }));
+  return (Object.keys(SHADOWING_PART_LABELS) as ShadowingPart[])
+    .flatMap(part => splitSentences(parts[part]).map(text => ({ part, text })));
+};
+
+export interface SentenceSegment {
+  startSec: number;
+  endSec: number;
+}
+
+// 경계 주변에서 문장 사이 쉼을 찾는 범위와 에너지 측정 창 크기
+const BOUNDARY_SEARCH_SEC = 0.8;
+const ENERGY_WINDOW_SEC = 0.05;
+
+// 저장된 모범답안 음성(16bit mono PCM)에서 문장별 재생 구간 추정
+// 글자 수 비율로 나눈 경계를 근처에서 가장 조용한 지점(문장 사이 쉼)으로 맞춤
+export const estimateSentenceSegments = (pcm: Uint8Array, sentences: string[], sampleRate: number = 24000): SentenceSegment[] => {
+  const view = new DataView(pcm.buffer, pcm.byteOffset, pcm.byteLength);
+  const totalSamples = Math.floor(pcm.byteLength / 2);
+  const windowSize = Math.max(1, Math.floor(ENERGY_WINDOW_SEC * sampleRate));
+  const searchSize = Math.floor(BOUNDARY_SEARCH_SEC * sampleRate);
+  const energyAt = (start: number) => {
+    let sum = 0;
+    const end = Math.min(totalSamples, start + windowSize);
+    for (let i = start; i < end; i++) sum += Math.abs(view.getInt16(i * 2, true));
+    return sum / Math.max(1, end - start);
+  };
+
+  const totalChars = sentences.reduce((sum, text) => sum + text.length, 0) || 1;
+  const boundaries = [0];
+  let chars = 0;
+  for (let i = 0; i < sentences.length - 1; i++) {
+    chars += sentences[i].length;
+    const estimate = Math.floor(totalSamples * chars / totalChars);
+    const from = Math.max(boundaries[boundaries.length - 1] + windowSize, estimate - searchSize);
+    const to = Math.min(totalSamples - windowSize, estimate + searchSize);
+    let best = Math.min(Math.max(estimate, from), totalSamples);
+    let bestEnergy = Infinity;
+    for (let start = from; start <= to; start += Math.ceil(windowSize / 2)) {
+      const energy = energyAt(start);
+      if (energy < bestEnergy) { bestEnergy = energy; best = start + Math.floor(windowSize / 2); }
+    }
+    boundaries.push(best);
+  }
+  boundaries.push(totalSamples);
+  return sentences.map((_, i) => ({ startSec: boundaries[i] / sampleRate, endSec: boundaries[i + 1] / sampleRate }));
+};
+
+export const scoreShadowing = (transcript: string, target: string): number =>
+  Math.round(sentenceSimilarity(transcript, target) * 100);
+
+// 문장별 최고 점수만 유지
+export const recordShadowingScore = (progress: ShadowingProgress | undefined, idx: number, score: number, total: number): ShadowingProgress => {
+  const scores = Array.from({ length: total }, (_, i) => progress?.scores[i] ?? null);
+  scores[idx] = Math.max(scores[idx] ?? 0, score);
+  return { scores, updatedAt: new Date().toLocaleString() };
+};
+
+export const countPassedSentences = (progress?: ShadowingProgress): number =>
+  (progress?.scores || []).filter(s => s !== null && s >= SHADOWING_PASS_SCORE).length;
+
+// Study_Log 저장용 JSON
+export const serializeShadowingProgress = (progress?: ShadowingProgress): string =>
+  progress ? JSON.stringify(progress) : "";
+
+export const deserializeShadowingProgress = (raw?: string): ShadowingProgress | undefined => {
+  if (!raw) return undefined;
+  try {
+    const data = JSON.parse(raw);
+    if (!Array.isArray(data?.scores)) return undefined;
+    return { scores: data.scores.map((s: any) => typeof s === 'number' ? s : null), updatedAt: data.updatedAt || "" };
+  } catch (e) { return undefined; }
+};
@@ -0,0 +1,26 @@
+// 이동 중 복습용 오디오 팩: 질문 안내 음성 + 모범답안을 하나의 WAV로 이어 붙임
+import { StudyLogEntry } from '../types';
+
+// Gemini TTS 출력과 같은 24kHz 16bit mono
+const PCM_BYTES_PER_SEC = 24000 * 2;
+
+export const STUDY_PACK_PROMPT_GAP_SEC = 1;
+export const STUDY_PACK_ITEM_GAP_SEC = 3;
+// 한 파일이 너무 커지지 않도록 (모범답안 1개 ≈ 5MB)
+export const STUDY_PACK_MAX_ITEMS = 30;
+
+export const canAddToStudyPack = (log: StudyLogEntry): boolean => !!(log.correction || "").trim();
+
+export const buildStudyPackPrompt = (log: StudyLogEntry, index: number): string => `Question ${index + 1}. ${log.question}`;
+
+export const createSilence = (sec: number): Uint8Array => new Uint8Array(Math.round(sec * PCM_BYTES_PER_SEC / 2) * 2);
+
+export const concatPcm = (chunks: Uint8Array[]): Uint8Array => {
+  const result = new Uint8Array(chunks.reduce((sum, c) => sum + c.byteLength, 0));
+  let offset = 0;
+  chunks.forEach(c => { result.set(c, offset); offset += c.byteLength; });
+  return result;
+};
+
+export const buildStudyPackFileName = (userName: string): string =>
+  `OPIcFlow_AudioPack_${userName}_${new Date().toLocaleDateString()}.wav`;
@@ -0,0 +1,111 @@
+import { GrammarCorrection } from '../types';
+
+export type DiffOp = 'same' | 'added' | 'removed';
+
+export interface DiffToken {
+  op: DiffOp;
+  text: string;
+}
+
+// 사용자 문장이 모범답안에서 어떻게 처리되었는지
+export type SentenceFate = 'KEPT' | 'REPHRASED' | 'REPLACED' | 'ADDED';
+
+export interface AlignedSentence {
+  fate: SentenceFate;
+  user: string;            // ADDED는 빈 문자열
+  model: string;           // 대응하는 모범답안 문장이 없으면 빈 문자열
+  tokens: DiffToken[];     // user → model 단어 단위 diff
+  corrections: GrammarCorrection[];
+}
+
+export const SENTENCE_FATE_LABELS: Record<SentenceFate, string> = {
+  KEPT: '유지',
+  REPHRASED: '다듬음',
+  REPLACED: '교체',
+  ADDED: '추가'
+};
+
+const KEPT_SIMILARITY = 0.9;
+const REPHRASED_SIMILARITY = 0.35;
+
+const normalizeWord = (w: string) => w.toLowerCase().replace(/[^a-z0-9']/g, '');
+
+export const splitSentences = (text: string): string[] =>
+  (text || "").replace(/\s+/g, ' ').match(/[^.!?]+[.!?]*/g)?.map(s => s.trim()).filter(Boolean) || [];
+
+// 단어 단위 LCS diff
+export const diffWords = (from: string, to: string): DiffToken[] => {
+  const a = from.split(/\s+/).filter(Boolean);
+  const b = to.split(/\s+/).filter(Boolean);
+  const na = a.map(normalizeWord);
+  const nb = b.map(normalizeWord);
+  const dp: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      dp[i][j] = na[i] === nb[j] ? dp[i + 1][j + 1] + 1 : Math.max(dp[i + 1][j], dp[i][j + 1]);
+    }
+  }
+  const tokens: DiffToken[] = [];
+  let i = 0, j = 0;
+  while (i < a.length && j < b.length) {
+    if (na[i] === nb[j]) { tokens.push({ op: 'same', text: b[j] }); i++; j++; }
+    else if (dp[i + 1][j] >= dp[i][j + 1]) tokens.push({ op: 'removed', text: a[i++] });
+    else tokens.push({ op: 'added', text: b[j++] });
+  }
+  while (i < a.length) tokens.push({ op: 'removed', text: a[i++] });
+  while (j < b.length) tokens.push({ op: 'added', text: b[j++] });
+  return tokens;
+};
+
+// 두 문장의 유사도 (공통 단어 수 / 긴 문장의 단어 수)
+export const sentenceSimilarity = (a: string, b: string): number => {
+  const tokens = diffWords(a, b);
+  const same = tokens.filter(t => t.op === 'same').length;
+  const longer = Math.max(a.split(/\s+/).filter(Boolean).length, b.split(/\s+/).filter(Boolean).length);
+  return longer > 0 ? same / longer : 0;
+};
+
+const correctionsFor = (sentence: string, corrections: GrammarCorrection[]) => {
+  const lower = sentence.toLowerCase();
+  return corrections.filter(c => c.original && lower.includes(c.original.toLowerCase()));
+};
+
+// 사용자 문장마다 가장 비슷한 모범답안 문장을 순서대로 대응시키고, 남은 모범답안 문장은 '추가'로 표시
+export const alignAnswer = (transcript: string, modelAnswer: string, corrections: GrammarCorrection[] = []): AlignedSentence[] => {
+  const userSentences = splitSentences(transcript);
+  const modelSentences = splitSentences(modelAnswer);
+  const result: AlignedSentence[] = [];
+  let cursor = 0;
+
+  userSentences.forEach(user => {
+    let bestIdx = -1;
+    let bestScore = 0;
+    for (let k = cursor; k < modelSentences.length; k++) {
+      const score = sentenceSimilarity(user, modelSentences[k]);
+      if (score > bestScore) { bestScore = score; bestIdx = k; }
+    }
+    const sentenceCorrections = correctionsFor(user, corrections);
+    if (bestIdx === -1 || bestScore < REPHRASED_SIMILARITY) {
+      result.push({ fate: 'REPLACED', user, model: "", tokens: diffWords(user, ""), corrections: sentenceCorrections });
+      return;
+    }
+    // 건너뛴 모범답안 문장은 새로 추가된 문장
+    for (let k = cursor; k < bestIdx; k++) {
+      result.push({ fate: 'ADDED', user: "", model: modelSentences[k], tokens: diffWords("", modelSentences[k]), corrections: [] });
+    }
+    const model = modelSentences[bestIdx];
+    result.push({
+      fate: bestScore >= KEPT_SIMILARITY ? 'KEPT' : 'REPHRASED',
+      user,
+      model,
+      tokens: diffWords(user, model),
+      corrections: sentenceCorrections
+    });
+    cursor = bestIdx + 1;
+  });
+
+  for (let k = cursor; k < modelSentences.length; k++) {
+    result.push({ fate: 'ADDED', user: "", model: modelSentences[k], tokens: diffWords("", modelSentences[k]), corrections: [] });
+  }
+  return result;
+};
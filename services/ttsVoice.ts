@@ -0,0 +1,69 @@
+import { Modality } from "@google/genai";
+import { TtsAccent, TtsVoicePreference } from '../types';
+
+export const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+export const TTS_VOICES: Record<string, { gender: 'MALE' | 'FEMALE', label: string }> = {
+  Puck: { gender: 'MALE', label: '밝은 남성' },
+  Charon: { gender: 'MALE', label: '차분한 남성' },
+  Orus: { gender: 'MALE', label: '단단한 남성' },
+  Kore: { gender: 'FEMALE', label: '또렷한 여성' },
+  Aoede: { gender: 'FEMALE', label: '산뜻한 여성' },
+  Leda: { gender: 'FEMALE', label: '젊은 여성' }
+};
+
+export const TTS_ACCENTS: Record<TtsAccent, { label: string, instruction: string }> = {
+  US: { label: '미국식', instruction: "" },
+  UK: { label: '영국식', instruction: "Read the following aloud in a natural British English accent:" },
+  AU: { label: '호주식', instruction: "Read the following aloud in a natural Australian English accent:" }
+};
+
+export const DEFAULT_TTS_VOICE: TtsVoicePreference = { voiceName: 'Puck', accent: 'US' };
+
+// 개인 시트 Settings 탭의 키
+export const TTS_VOICE_SETTING_KEY = 'TTS_Voice';
+export const TTS_ACCENT_SETTING_KEY = 'TTS_Accent';
+
+// 파일 이름/캐시 키에 쓰는 식별자 (예: Puck-US)
+export const getVoiceKey = (voice: TtsVoicePreference): string => `${voice.voiceName}-${voice.accent}`;
+
+export const parseVoiceKey = (key?: string): TtsVoicePreference | undefined => {
+  const [voiceName, accent] = (key || "").split('-');
+  if (!TTS_VOICES[voiceName] || !(accent in TTS_ACCENTS)) return undefined;
+  return { voiceName, accent: accent as TtsAccent };
+};
+
+export const isSameVoice = (a: TtsVoicePreference, b: TtsVoicePreference) => getVoiceKey(a) === getVoiceKey(b);
+
+export const loadVoicePreference = (settings: Record<string, string>): TtsVoicePreference => ({
+  voiceName: TTS_VOICES[settings[TTS_VOICE_SETTING_KEY]] ? settings[TTS_VOICE_SETTING_KEY] : DEFAULT_TTS_VOICE.voiceName,
+  accent: settings[TTS_ACCENT_SETTING_KEY] in TTS_ACCENTS ? settings[TTS_ACCENT_SETTING_KEY] as TtsAccent : DEFAULT_TTS_VOICE.accent
+});
+
+export const voicePreferenceToSettings = (voice: TtsVoicePreference): Record<string, string> => ({
+  [TTS_VOICE_SETTING_KEY]: voice.voiceName,
+  [TTS_ACCENT_SETTING_KEY]: voice.accent
+});
+
+// 같은 문장이라도 목소리별로 다른 음성이므로 캐시 키에 포함
+export const buildTtsCacheKey = (text: string, voice: TtsVoicePreference): string => `${getVoiceKey(voice)}|${text}`;
+
+export const MODEL_AUDIO_FILE_PREFIX = 'AL_MODEL_';
+
+export const buildModelAudioFileName = (sessionId: string, voice: TtsVoicePreference): string =>
+  `${MODEL_AUDIO_FILE_PREFIX}${sessionId}_${getVoiceKey(voice)}.wav`;
+
+// 예전에는 헤더 없는 PCM(.pcm)으로 올려서 Drive/모바일에서 바로 재생되지 않음
+export const isLegacyModelAudioFile = (fileName: string): boolean =>
+  fileName.startsWith(MODEL_AUDIO_FILE_PREFIX) && fileName.endsWith('.pcm');
+
+export const toWavFileName = (fileName: string): string => fileName.replace(/\.pcm$/, '.wav');
+
+export const buildTtsRequest = (text: string, voice: TtsVoicePreference) => ({
+  model: TTS_MODEL,
+  contents: [{ parts: [{ text: TTS_ACCENTS[voice.accent].instruction ? `${TTS_ACCENTS[voice.accent].instruction}\n${text}` : text }] }],
+  config: {
+    responseModalities: [Modality.AUDIO],
+    speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: voice.voiceName } } }
+  }
+});
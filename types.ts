@@ -24,6 +24,17 @@ export interface UnitProgress {
   lastPractice: string; // 최종 학습 일시 (G)
 }
 
+export interface QuestionDbEntry {
+  fullId: string;
+  unitId: string;
+  category: string;  // 대분류
+  topic: string;     // 유닛/주제
+  essence: string;   // 질문요지
+  strategy: string;  // 유형공략명
+  triggerId: string;
+  targetOption: string;
+}
+
 export interface StudyLogEntry {
   sessionId: string;      
   date: string;
@@ -38,6 +49,163 @@ export interface StudyLogEntry {
   translatedAnswer: string; 
   feedback: string;
   audioLink: string;      
+  examId?: string;        // 모의고사 묶음 ID (N)
+  comboId?: string;       // 콤보 세트 묶음 ID (O)
+  rolePlayRubric?: string; // 롤플레이 전용 채점 루브릭 JSON (P)
+  answerDurationSec?: number; // 실제 답변 시간(초, 일시정지 제외) (Q)
+  questionReplayed?: boolean; // 실전 모드에서 질문 다시 듣기 사용 여부, 일반 모드는 비어 있음 (R)
+  rubric?: AnswerRubric;      // 항목별 점수 (S~X) + 근거/코멘트 JSON (Y)
+  gradeSamples?: OpicGrade[]; // 합의 채점 시 각 채점 결과 (Z)
+  gradeConfidence?: number;   // 합의 채점 신뢰도 0~1, 시트에는 % 로 저장 (AA)
+  fluency?: FluencyMetrics;   // 유창성 지표 (AB~AJ)
+  grammarCorrections?: GrammarCorrection[]; // 답변의 문법/어휘 교정 목록 JSON (AK)
+  pronunciationIssues?: PronunciationIssue[]; // 발음이 어색한 단어 목록 JSON (AL)
+  shadowing?: ShadowingProgress; // 모범답안 쉐도잉 진행 상황 JSON (AM)
+  modelVoice?: string;           // 모범답안 음성의 목소리 (예: Puck-US), 비어 있으면 기본 목소리 (AN)
+}
+
+export type TtsAccent = 'US' | 'UK' | 'AU';
+
+export interface TtsVoicePreference {
+  voiceName: string;    // Gemini TTS prebuilt voice
+  accent: TtsAccent;
+}
+
+export type GrammarErrorCategory = 'TENSE' | 'ARTICLE' | 'PREPOSITION' | 'SUBJECT_VERB' | 'WORD_CHOICE' | 'OTHER';
+
+export interface GrammarCorrection {
+  original: string;     // 사용자 답변에서 인용한 틀린 부분
+  corrected: string;
+  explanation: string;  // 한글 설명
+  category: GrammarErrorCategory;
+}
+
+export interface PronunciationIssue {
+  word: string;         // 단어 또는 짧은 구
+  startSec: number;     // 녹음 시작 기준 대략적인 위치(초)
+  heard: string;        // 실제로 들린 발음
+  tip: string;          // 한글 교정 팁
+}
+
+export interface ShadowingProgress {
+  scores: (number | null)[]; // 모범답안 문장별 최고 일치율(0~100), 미연습은 null
+  updatedAt: string;
+}
+
+// 답변 분석 결과 (피드백 화면 표시용)
+export interface AnalysisResult {
+  sessionId?: string;
+  transcript: string;
+  correction: string;
+  translatedAnswer?: string;
+  correctionParts?: { intro: string, body: string, conclusion: string };
+  translationParts?: { intro: string, body: string, conclusion: string };
+  feedback: string;
+  predictedLevel: string;
+  rawAudioLink?: string;
+  audioLink?: string;
+  date?: string;
+  rolePlayRubric?: RolePlayRubric;
+  answerDurationSec?: number;
+  rubric?: AnswerRubric;
+  gradeConsensus?: GradeConsensus;
+  fluency?: FluencyMetrics;
+  grammarCorrections?: GrammarCorrection[];
+  pronunciationIssues?: PronunciationIssue[];
+  shadowing?: ShadowingProgress;
+  modelVoice?: string;
+}
+
+export type AnalysisJobStep = 'UPLOAD' | 'GRADE' | 'SAVE_LOG' | 'UPDATE_UNIT' | 'UPDATE_MASTER' | 'MODEL_AUDIO' | 'DONE';
+
+export type AnalysisJobStatus = 'PENDING' | 'RUNNING' | 'FAILED';
+
+// 녹음 분석 작업. 단계마다 로컬(IndexedDB)에 저장되어 새로고침 후에도 이어서 진행
+export interface AnalysisJob {
+  id: string;                 // sessionId
+  userEmail: string;
+  createdAt: number;
+  blob: Blob;
+  step: AnalysisJobStep;      // 다음에 실행할 단계
+  status: AnalysisJobStatus;
+  attempts: number;           // 현재 단계에서 실패한 횟수
+  lastError?: string;
+  unitIdx: number;
+  unitFullId: string;
+  unitGrade: string;          // 녹음 시점의 유닛 등급 (미판정 시 유지)
+  unitConflict?: boolean;     // 그 사이 다른 곳에서 더 최근에 연습해 유닛 진도는 덮어쓰지 않음
+  log: StudyLogEntry;         // 채점 전에는 질문/유닛 정보만 채워져 있음
+  gradingPrompt: string;
+  rolePlayType?: RolePlayType;
+  isConsensus: boolean;
+  result?: AnalysisResult;
+}
+
+// 제출 전 검토용 녹음 (같은 질문에 여러 번 녹음해 하나만 분석)
+export interface RecordingTake {
+  id: string;
+  blob: Blob;
+  durationSec: number;
+  recordedAt: string;
+}
+
+export type DrillType = 'FILL_BLANK' | 'TRANSFORM' | 'SPEAK';
+
+export interface DrillItem {
+  id: string;
+  type: DrillType;
+  category: GrammarErrorCategory;
+  instruction: string;  // 한글 지시문
+  prompt: string;       // 빈칸 문장(___) / 고쳐 쓸 문장 / 따라 말할 문장
+  answer: string;       // 정답 (빈칸은 '/'로 복수 정답 허용)
+}
+
+// Drill_Log 탭 한 행
+export interface DrillResult {
+  drillId: string;
+  setId: string;
+  date: string;
+  type: DrillType;
+  category: GrammarErrorCategory;
+  prompt: string;
+  answer: string;
+  userAnswer: string;   // 말하기 드릴은 전사 결과
+  correct: boolean;
+  feedback: string;
+}
+
+export interface FluencyMetrics {
+  wpm: number;                // 전체 녹음 길이 기준 분당 단어 수
+  wordCount: number;
+  speakingSec: number;
+  silenceSec: number;
+  longestPauseSec: number;
+  pauseCount: number;         // 0.7초 이상 멈춤 횟수
+  fillerCount: number;        // uh, um, you know ...
+  selfCorrectionCount: number;
+  sentenceCount: number;
+}
+
+export interface GradeConsensus {
+  level: OpicGrade;       // 중앙값 등급
+  samples: OpicGrade[];
+  confidence: number;     // 중앙값과 일치한 샘플 비율 (0~1)
+}
+
+export type RubricCriterionKey = 'TASK_COMPLETION' | 'TEXT_TYPE' | 'FLUENCY' | 'ACCURACY' | 'VOCABULARY' | 'PRONUNCIATION';
+
+export interface RubricCriterionScore {
+  score: number;     // 1~5
+  evidence: string;  // 답변에서 인용한 근거
+  comment: string;   // 더 높은 점수를 받기 위해 부족한 점 (한글)
+}
+
+export type AnswerRubric = Partial<Record<RubricCriterionKey, RubricCriterionScore>>;
+
+export interface ComboSetState {
+  comboId: string;
+  questions: OPIcQuestion[];  // 묘사 → 루틴 → 과거 경험 순서의 연결 질문 3개
+  index: number;
 }
 
 export interface VocabularyEntry {
@@ -58,6 +226,7 @@ export interface UserStudyContext {
   individualFolderUrl?: string;
   progress?: number;
   survey?: SurveyData;
+  selfAssessment?: number; // 자가평가 난이도 (1~6)
   units?: UnitProgress[];
 }
 
@@ -66,13 +235,65 @@ export interface SurveyData {
   studentStatus: string;
   residence: string;
   activities: string[];
+  selfAssessment?: number;
 }
 
+// OPIc 공식 등급 (낮은 순): Novice Low ~ Advanced Low
+export type OpicGrade = 'NL' | 'NM' | 'NH' | 'IL' | 'IM1' | 'IM2' | 'IM3' | 'IH' | 'AL';
+
 export interface OPIcQuestion {
   unit: string;
   type: string;
   question: string;
   description: string;
+  rolePlayType?: RolePlayType;
+}
+
+export type RolePlayType = 'ASK_QUESTIONS' | 'SOLVE_PROBLEM' | 'RELATED_EXPERIENCE';
+
+export interface RolePlayCriterion {
+  name: string;
+  score: number;   // 1 ~ 5
+  comment: string;
+}
+
+export interface RolePlayRubric {
+  criteria: RolePlayCriterion[];
+  summary: string;
+}
+
+export type DifficultyAdjustment = 'EASIER' | 'SAME' | 'HARDER';
+
+export interface PracticeSetState {
+  levels: string[];                          // 세트 내 문항별 predictedLevel
+  adjustment: DifficultyAdjustment | null;   // 7번 문항 이후 선택한 난이도 재조정
+}
+
+export type MockExamSlotKind = 'SELF_INTRO' | 'SURVEY_COMBO' | 'UNEXPECTED_COMBO' | 'ROLE_PLAY' | 'ADVANCED';
+
+export interface MockExamQuestion extends OPIcQuestion {
+  number: number;         // 1 ~ 15
+  kind: MockExamSlotKind;
+  fullId?: string;        // 출제 근거가 된 Question_DB full_id
+}
+
+export interface MockExamQuestionResult {
+  number: number;
+  transcript: string;
+  level: string;
+  feedback: string;
+  rawAudioLink: string;
+  durationSec?: number;   // 답변 시간(초). 시험 시간 종료로 답하지 못한 문항은 비어 있음
+  fluency?: FluencyMetrics;
+  grammarCorrections?: GrammarCorrection[];
+}
+
+export interface MockExamResult {
+  examId: string;
+  date: string;
+  overallLevel: string;
+  summary: string;
+  questions: MockExamQuestionResult[];
 }
 
 export interface CredentialResponse {